@@ -0,0 +1,97 @@
+/**
+ * Replays a status script against the remote debug endpoint of the editor.
+ *
+ * usage: npx tsx debug-stub.ts [script] [port]
+ *
+ * The script lists the agents to announce, each with the ticks to replay in a loop,
+ * see `sample/debug-script.json`.
+ */
+import * as fs from "fs";
+import { WebSocket } from "ws";
+import {
+  REMOTE_DEBUG_PORT,
+  RemoteAgent,
+  RemoteCommand,
+  RemoteMessage,
+} from "./src/misc/remote-debug";
+import { RunStatus, TickEvent } from "./src/misc/simulator";
+
+interface ScriptTick {
+  statuses?: Record<string, RunStatus>;
+  trace?: TickEvent[];
+  blackboard?: Record<string, unknown>;
+}
+
+interface Script {
+  name?: string;
+  interval?: number;
+  agents: (RemoteAgent & { ticks: ScriptTick[] })[];
+}
+
+const scriptPath = process.argv[2] ?? "sample/debug-script.json";
+const port = Number(process.argv[3] ?? REMOTE_DEBUG_PORT);
+const script = JSON.parse(fs.readFileSync(scriptPath, "utf-8")) as Script;
+
+const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+const send = (msg: RemoteMessage) => socket.send(JSON.stringify(msg));
+
+let watching: string | null = null;
+let paused = false;
+let tick = 0;
+// values set by the editor, they win over the scripted ones
+let overrides: Record<string, unknown> = {};
+let values: Record<string, unknown> = {};
+
+socket.on("open", () => {
+  console.log(`connected to ws://127.0.0.1:${port}`);
+  send({ type: "hello", name: script.name ?? "debug-stub" });
+  send({
+    type: "agents",
+    agents: script.agents.map((v) => ({ id: v.id, name: v.name, tree: v.tree })),
+  });
+});
+
+socket.on("message", (data) => {
+  const command = JSON.parse(data.toString()) as RemoteCommand;
+  console.log("command:", command);
+  if (command.type === "watch") {
+    watching = command.agent;
+    paused = false;
+    overrides = {};
+    values = {};
+  } else if (command.type === "pause") {
+    paused = true;
+  } else if (command.type === "resume") {
+    paused = false;
+  } else if (command.type === "setValue") {
+    overrides[command.name] = command.value;
+    values = { ...values, ...overrides };
+    send({ type: "blackboard", agent: command.agent, values });
+  }
+});
+
+socket.on("close", () => {
+  console.log("disconnected");
+  process.exit(0);
+});
+
+socket.on("error", (e) => {
+  console.error(e.message);
+  process.exit(1);
+});
+
+setInterval(() => {
+  const agent = script.agents.find((v) => v.id === watching);
+  if (!agent || paused || agent.ticks.length === 0) {
+    return;
+  }
+  const data = agent.ticks[tick % agent.ticks.length];
+  const statuses = { ...data.statuses };
+  data.trace?.forEach((v) => v.status && (statuses[v.id] = v.status));
+  send({ type: "tick", agent: agent.id, tick, statuses, trace: data.trace });
+  if (data.blackboard) {
+    values = { ...values, ...data.blackboard, ...overrides };
+    send({ type: "blackboard", agent: agent.id, values });
+  }
+  tick++;
+}, script.interval ?? 1000);
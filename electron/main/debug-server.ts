@@ -0,0 +1,92 @@
+import { BrowserWindow } from "electron";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  parseRemoteMessage,
+  RemoteAgent,
+  RemoteCommand,
+  RemoteEvent,
+  RemoteMessage,
+} from "../../src/misc/remote-debug";
+
+interface Client {
+  socket: WebSocket;
+  name?: string;
+  agents?: RemoteAgent[];
+}
+
+const clients = new Map<number, Client>();
+let nextClient = 1;
+
+const broadcast = (event: RemoteEvent) => {
+  BrowserWindow.getAllWindows().forEach((win) => {
+    win.webContents.send("remote-debug", event);
+  });
+};
+
+export function startDebugServer(port: number) {
+  const server = new WebSocketServer({ host: "127.0.0.1", port });
+
+  server.on("listening", () => {
+    console.log(`remote debug listening on ws://127.0.0.1:${port}`);
+  });
+
+  server.on("error", (e) => {
+    console.error(`remote debug server error: ${e.message}`);
+  });
+
+  server.on("connection", (socket) => {
+    const id = nextClient++;
+    const client: Client = { socket };
+    clients.set(id, client);
+    broadcast({ client: id, message: { type: "connect" } });
+
+    socket.on("message", (data) => {
+      let message: RemoteMessage | null;
+      try {
+        message = parseRemoteMessage(JSON.parse(data.toString()));
+      } catch (e) {
+        message = null;
+      }
+      if (!message) {
+        console.error(`remote debug: invalid message from client ${id}`);
+        return;
+      }
+      const event: RemoteEvent = { client: id, message };
+      // keep the announcements for the windows opened later
+      if (event.message.type === "hello") {
+        client.name = event.message.name;
+      } else if (event.message.type === "agents") {
+        client.agents = event.message.agents;
+      }
+      broadcast(event);
+    });
+
+    socket.on("close", () => {
+      clients.delete(id);
+      broadcast({ client: id, message: { type: "disconnect" } });
+    });
+  });
+}
+
+/** Sends a command to a client, dropped if the client is gone or the server is not started. */
+export function sendDebugCommand(id: number, command: RemoteCommand) {
+  const client = clients.get(id);
+  if (client?.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(command));
+  }
+}
+
+/** Replays the connected clients and their announcements for a window opened later. */
+export function syncDebugClients() {
+  const events: RemoteEvent[] = [];
+  clients.forEach((client, id) => {
+    events.push({ client: id, message: { type: "connect" } });
+    if (client.name) {
+      events.push({ client: id, message: { type: "hello", name: client.name } });
+    }
+    if (client.agents) {
+      events.push({ client: id, message: { type: "agents", agents: client.agents } });
+    }
+  });
+  return events;
+}
@@ -6,7 +6,11 @@ import { argv } from "node:process";
 import { fileURLToPath } from "node:url";
 import { VERSION } from "../../src/misc/b3type";
 import * as b3util from "../../src/misc/b3util";
+import type { ImageFormat, ImageTheme } from "../../src/misc/export-image";
 import Path from "../../src/misc/path";
+import { REMOTE_DEBUG_PORT, RemoteCommand } from "../../src/misc/remote-debug";
+import { readWorkspace } from "../../src/misc/util";
+import { sendDebugCommand, startDebugServer, syncDebugClients } from "./debug-server";
 
 const require = createRequire(import.meta.url);
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -15,6 +19,11 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 let buildProject: string | undefined;
 let buildOutput: string | undefined;
 let buildHelp: boolean = false;
+let buildMigrate: boolean = false;
+let exportDir: string | undefined;
+let exportFormat: ImageFormat = "png";
+let exportTheme: ImageTheme = "dark";
+let debugPort: number = REMOTE_DEBUG_PORT;
 
 for (let i = 0; i < argv.length; i++) {
   const arg = argv[i];
@@ -24,6 +33,20 @@ for (let i = 0; i < argv.length; i++) {
   } else if (arg === "-o") {
     buildOutput = argv[i + 1];
     i++;
+  } else if (arg === "--migrate") {
+    buildMigrate = true;
+  } else if (arg === "--export") {
+    exportDir = argv[i + 1];
+    i++;
+  } else if (arg === "--format") {
+    exportFormat = argv[i + 1] as ImageFormat;
+    i++;
+  } else if (arg === "--theme") {
+    exportTheme = argv[i + 1] as ImageTheme;
+    i++;
+  } else if (arg === "--debug-port") {
+    debugPort = Number(argv[i + 1]);
+    i++;
   } else if (arg === "-h" || arg === "-v") {
     buildHelp = true;
   }
@@ -34,46 +57,82 @@ const printHelp = () => {
   console.log("Options:");
   console.log("  -p <path>    Set the project path");
   console.log("  -o <path>    Set the build output path");
+  console.log("  --migrate    Migrate the trees with the rules of the node definitions");
+  console.log("  --export <path>    Export the trees as images into the path");
+  console.log("  --format <svg|png>    Set the image format of --export (default: png)");
+  console.log("  --theme <dark|light>    Set the image theme of --export (default: dark)");
+  console.log(`  --debug-port <port>    Set the remote debug port (default: ${REMOTE_DEBUG_PORT})`);
   console.log("  -h -v        Print this help");
 };
 
-if (buildOutput || buildProject || buildHelp) {
+if (!Number.isInteger(debugPort) || debugPort < 0 || debugPort > 65535) {
+  console.error("debug port should be an integer between 0 and 65535");
+  printHelp();
+  app.quit();
+  process.exit(1);
+}
+
+if (buildOutput || buildProject || buildHelp || buildMigrate || exportDir) {
   if (buildHelp) {
     printHelp();
     app.quit();
     process.exit(1);
-  } else if (!buildOutput || !buildProject) {
+  } else if ((!buildOutput && !buildMigrate && !exportDir) || !buildProject) {
     console.error("build output or project is not set");
     printHelp();
     app.quit();
     process.exit(1);
+  } else if (!["svg", "png"].includes(exportFormat) || !["dark", "light"].includes(exportTheme)) {
+    console.error(`invalid export format '${exportFormat}' or theme '${exportTheme}'`);
+    printHelp();
+    app.quit();
+    process.exit(1);
   }
   try {
     const project = Path.posixPath(buildProject!);
-    const buildDir = Path.posixPath(buildOutput!);
     console.log("start build project:", project);
     if (!project.endsWith(".b3-workspace")) {
       throw new Error(`'${project}' is not a workspace`);
     }
     const workdir = Path.dirname(project);
-    b3util.initWorkdir(workdir, (msg) => {
-      console.error(`${msg}`);
+    b3util.initWorkdir(
+      workdir,
+      (msg) => {
+        console.error(`${msg}`);
+      },
+      readWorkspace(project).settings.nodeConf
+    );
+    b3util.nodeDefConflicts.forEach((v) => {
+      console.warn(`node '${v.name}' in '${v.file}' overrides '${v.previous}'`);
     });
-    const hasError = await b3util.buildProject(project, buildDir);
-    if (hasError) {
-      console.error("build failed***");
-      app.quit();
-      process.exit(1);
-    } else {
-      console.log("build completed");
+    if (buildMigrate) {
+      const count = b3util.migrateProject(project);
+      console.log(`migrate completed: ${count} files changed`);
+    }
+    if (buildOutput) {
+      const buildDir = Path.posixPath(buildOutput);
+      const hasError = await b3util.buildProject(project, buildDir);
+      if (hasError) {
+        console.error("build failed***");
+        app.quit();
+        process.exit(1);
+      } else {
+        console.log("build completed");
+      }
     }
   } catch (error) {
     console.error("build failed***");
     app.quit();
     process.exit(1);
   }
-  app.quit();
-  process.exit(0);
+  if (exportDir) {
+    // the trees are rendered by a hidden window, see `createExportWindow`
+    buildProject = Path.posixPath(Path.resolve(buildProject));
+    exportDir = Path.posixPath(Path.resolve(exportDir));
+  } else {
+    app.quit();
+    process.exit(0);
+  }
 }
 
 // The built directory structure
@@ -198,8 +257,53 @@ async function createWindow(projectPath?: string) {
   // update(win);
 }
 
+/** The export fails when no tree is reported within the time, e.g. the renderer hangs. */
+const EXPORT_TIMEOUT = 60 * 1000;
+let exportTimer: NodeJS.Timeout | undefined;
+
+const resetExportTimer = () => {
+  clearTimeout(exportTimer);
+  exportTimer = setTimeout(() => {
+    console.error("export timeout***");
+    app.exit(1);
+  }, EXPORT_TIMEOUT);
+};
+
+function createExportWindow(projectPath: string) {
+  const win = new BrowserWindow({
+    show: false,
+    width: 1280,
+    height: 800,
+    webPreferences: {
+      preload,
+      webSecurity: false,
+      nodeIntegration: true,
+      contextIsolation: false,
+    },
+  });
+  windows.push({ projectPath, window: win });
+  win.webContents.on("render-process-gone", (_, details) => {
+    console.error(`export failed: renderer ${details.reason}***`);
+    app.exit(1);
+  });
+  if (VITE_DEV_SERVER_URL) {
+    win.loadURL(VITE_DEV_SERVER_URL);
+  } else {
+    win.loadFile(indexHtml);
+  }
+  require("@electron/remote/main").enable(win.webContents);
+  resetExportTimer();
+}
+
 app.whenReady().then(() => {
   require("@electron/remote/main").initialize();
+  if (exportDir) {
+    createExportWindow(buildProject!);
+    return;
+  }
+  if (debugPort) {
+    startDebugServer(debugPort);
+  }
   createWindow();
 });
 
@@ -240,11 +344,51 @@ ipcMain.handle("open-win", (e, arg) => {
   createWindow(arg);
 });
 
+ipcMain.handle("remote-debug-port", () => debugPort);
+
+// registered even without the server, there are just no clients then
+ipcMain.handle("remote-debug-send", (_, id: number, command: RemoteCommand) => {
+  sendDebugCommand(id, command);
+});
+
+ipcMain.handle("remote-debug-sync", () => syncDebugClients());
+
 ipcMain.handle("ready-to-show", (e) => {
   const workspace = windows.find((v) => v.window.webContents.id === e.sender.id);
   if (workspace && workspace.projectPath) {
-    workspace.window.webContents.send("open-project", workspace.projectPath);
+    if (exportDir) {
+      workspace.window.webContents.send(
+        "export-project",
+        workspace.projectPath,
+        exportDir,
+        exportFormat,
+        exportTheme
+      );
+    } else {
+      workspace.window.webContents.send("open-project", workspace.projectPath);
+    }
+  }
+});
+
+ipcMain.handle("export-progress", (_, path: string, error?: string) => {
+  if (error) {
+    console.error(`export failed: ${path}`, error);
+  } else {
+    console.log(`export: ${path}`);
+  }
+  resetExportTimer();
+});
+
+ipcMain.handle("export-completed", (_, failed: number, error?: string) => {
+  clearTimeout(exportTimer);
+  if (error) {
+    console.error(`export failed: ${error}***`);
+  } else if (failed > 0) {
+    console.error(`export failed: ${failed} trees***`);
+  } else {
+    console.log("export completed");
   }
+  app.exit(error || failed > 0 ? 1 : 0);
 });
 
 ipcMain.handle("trash-item", (_, arg) => {
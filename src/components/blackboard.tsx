@@ -0,0 +1,93 @@
+import { Flex, Input } from "antd";
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { VscSymbolVariable } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+const formatValue = (value: unknown) => {
+  return value === undefined ? "" : JSON.stringify(value);
+};
+
+const parseValue = (str: string) => {
+  if (str.trim() === "") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    // plain text is taken as a string
+    return str;
+  }
+};
+
+export const Blackboard: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      blackboards: state.blackboards,
+      editing: state.editing,
+      usingVars: state.usingVars,
+    }))
+  );
+  const { t } = useTranslation();
+
+  const editor = workspace.editing;
+  const blackboard = editor ? workspace.blackboards.get(editor.path) : undefined;
+  if (!editor || !blackboard) {
+    return <div className="b3-dock-empty">{t("blackboard.empty")}</div>;
+  }
+
+  const vars = Object.values(workspace.usingVars ?? {}).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  if (vars.length === 0) {
+    return <div className="b3-dock-empty">{t("blackboard.noVars")}</div>;
+  }
+
+  return (
+    <div
+      className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+      style={{ overflow: "auto", height: "100%" }}
+    >
+      {vars.map((v) => {
+        const value = formatValue(blackboard.values[v.name]);
+        const changed = blackboard.changed.includes(v.name);
+        return (
+          <Flex key={v.name} className="b3-dock-item" gap="6px" align="center">
+            <VscSymbolVariable style={{ flexShrink: 0 }} />
+            <span
+              className={mergeClassNames("b3-blackboard-name", changed && "b3-blackboard-changed")}
+              title={v.desc}
+              onClick={() => editor.dispatch?.("clickVar", v.name)}
+            >
+              {v.name}
+            </span>
+            <Input
+              // recreate the input when the value is changed by a tick
+              key={value}
+              size="small"
+              defaultValue={value}
+              placeholder="undefined"
+              disabled={blackboard.readonly}
+              title={blackboard.readonly ? t("blackboard.pausedReadonly") : undefined}
+              className={mergeClassNames(changed && "b3-blackboard-changed")}
+              style={{ width: "240px" }}
+              onPressEnter={(e) => e.currentTarget.blur()}
+              onBlur={(e) => {
+                if (e.currentTarget.value !== value) {
+                  editor.dispatch?.("setBlackboardValue", {
+                    name: v.name,
+                    value: parseValue(e.currentTarget.value),
+                  });
+                }
+              }}
+            />
+            <span style={{ color: "gray" }}>{v.desc}</span>
+          </Flex>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { Button, Flex, Input } from "antd";
+import TextArea from "antd/es/input/TextArea";
+import dayjs from "dayjs";
+import * as os from "os";
+import { FC, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { VscComment, VscEdit, VscNote, VscTrash } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useSetting } from "../contexts/setting-context";
+import { CommentEntry, useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+const commentKey = (comment: CommentEntry) => `${comment.node ?? ""}:${comment.index}`;
+
+export const Comments: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      comments: state.comments,
+      editing: state.editing,
+      editingNode: state.editingNode,
+    }))
+  );
+  const setting = useSetting(
+    useShallow((state) => ({
+      author: state.data.author,
+      setAuthor: state.setAuthor,
+    }))
+  );
+  const { t } = useTranslation();
+  const [text, setText] = useState("");
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState("");
+
+  const editor = workspace.editing;
+  if (!editor) {
+    return <div className="b3-dock-empty">{t("comments.empty")}</div>;
+  }
+
+  const comments = workspace.comments.get(editor.path) ?? [];
+  const node = workspace.editingNode?.data;
+  const prefix = editor.data.prefix;
+
+  const add = () => {
+    if (text.trim()) {
+      editor.dispatch?.("addComment", text);
+      setText("");
+    }
+  };
+
+  const commitEdit = (comment: CommentEntry) => {
+    if (editingText.trim() && editingText !== comment.text) {
+      editor.dispatch?.("updateComment", { ...comment, text: editingText });
+    }
+    setEditingKey(null);
+  };
+
+  return (
+    <Flex style={{ height: "100%" }}>
+      <div
+        className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+        style={{ overflow: "auto", flex: 1, minWidth: 0 }}
+      >
+        {comments.length === 0 && <div className="b3-dock-empty">{t("comments.noComments")}</div>}
+        {comments.map((comment) => {
+          const key = commentKey(comment);
+          return (
+            <Flex
+              key={key}
+              className="b3-dock-item"
+              gap="6px"
+              align="flex-start"
+              onClick={() => comment.node && editor.dispatch?.("focusNode", comment.node)}
+            >
+              {comment.node ? (
+                <VscComment style={{ flexShrink: 0, marginTop: "3px" }} />
+              ) : (
+                <VscNote style={{ flexShrink: 0, marginTop: "3px" }} />
+              )}
+              <Flex vertical style={{ flex: 1, minWidth: 0 }}>
+                <Flex gap="6px" align="center">
+                  <span style={{ fontWeight: "600" }}>{comment.author}</span>
+                  <span style={{ color: "gray" }}>
+                    {dayjs(comment.time).format("YYYY-MM-DD HH:mm")}
+                  </span>
+                  <span style={{ color: "gray" }}>
+                    {comment.node
+                      ? `${prefix}${comment.node} ${comment.name ?? ""}`
+                      : t("comments.canvas")}
+                  </span>
+                </Flex>
+                {editingKey === key ? (
+                  <TextArea
+                    autoFocus
+                    autoSize
+                    value={editingText}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setEditingText(e.target.value)}
+                    onBlur={() => commitEdit(comment)}
+                  />
+                ) : (
+                  <span style={{ whiteSpace: "pre-wrap" }}>{comment.text}</span>
+                )}
+              </Flex>
+              <Button
+                type="text"
+                size="small"
+                icon={<VscEdit />}
+                title={t("comments.edit")}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setEditingKey(key);
+                  setEditingText(comment.text);
+                }}
+              />
+              <Button
+                type="text"
+                size="small"
+                icon={<VscTrash />}
+                title={t("delete")}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  editor.dispatch?.("removeComment", comment);
+                }}
+              />
+            </Flex>
+          );
+        })}
+      </div>
+      <Flex
+        vertical
+        gap="6px"
+        style={{
+          width: "320px",
+          flexShrink: 0,
+          padding: "8px",
+          borderLeft: "1px solid var(--b3-color-border)",
+        }}
+      >
+        <span style={{ color: "gray" }}>
+          {node
+            ? t("comments.onNode", { id: `${prefix}${node.id}`, name: node.name })
+            : t("comments.onCanvas")}
+        </span>
+        <TextArea
+          autoSize={{ minRows: 3, maxRows: 8 }}
+          value={text}
+          placeholder={t("comments.placeholder")}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+              add();
+            }
+          }}
+        />
+        <Flex gap="6px" align="center">
+          <span style={{ color: "gray", flexShrink: 0 }}>{t("comments.author")}</span>
+          <Input
+            size="small"
+            defaultValue={setting.author}
+            placeholder={os.userInfo().username}
+            onBlur={(e) => setting.setAuthor(e.target.value)}
+          />
+          <Button type="primary" size="small" disabled={!text.trim()} onClick={add}>
+            {t("add")}
+          </Button>
+        </Flex>
+      </Flex>
+    </Flex>
+  );
+};
@@ -0,0 +1,98 @@
+import { CloseOutlined } from "@ant-design/icons";
+import { Button, Tabs } from "antd";
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { useShallow } from "zustand/react/shallow";
+import { DockPanel, useWorkspace } from "../contexts/workspace-context";
+import { Blackboard } from "./blackboard";
+import { Comments } from "./comments";
+import { Docs } from "./docs";
+import { Migration } from "./migration";
+import { Problems } from "./problems";
+import { RemoteDebug } from "./remote-debug";
+import { Search } from "./search";
+import { Usages } from "./usages";
+
+export const Dock: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      comments: state.comments,
+      dockPanel: state.dockPanel,
+      editing: state.editing,
+      problems: state.problems,
+      remoteRuntimes: state.remoteRuntimes,
+      showDockPanel: state.showDockPanel,
+    }))
+  );
+  const { t } = useTranslation();
+
+  if (!workspace.dockPanel) {
+    return null;
+  }
+
+  let problemCount = 0;
+  workspace.problems.forEach((v) => (problemCount += v.problems.length));
+  const commentCount = workspace.editing
+    ? workspace.comments.get(workspace.editing.path)?.length ?? 0
+    : 0;
+
+  return (
+    <div className="b3-dock">
+      <Tabs
+        size="small"
+        activeKey={workspace.dockPanel}
+        onChange={(key) => workspace.showDockPanel(key as DockPanel)}
+        tabBarExtraContent={
+          <Button
+            type="text"
+            size="small"
+            icon={<CloseOutlined />}
+            onClick={() => workspace.showDockPanel(null)}
+          />
+        }
+        items={[
+          {
+            key: "problems",
+            label: `${t("problems")} (${problemCount})`,
+            children: <Problems />,
+          },
+          {
+            key: "remote",
+            label: `${t("remote")} (${workspace.remoteRuntimes.length})`,
+            children: <RemoteDebug />,
+          },
+          {
+            key: "blackboard",
+            label: t("blackboard"),
+            children: <Blackboard />,
+          },
+          {
+            key: "usages",
+            label: t("usages"),
+            children: <Usages />,
+          },
+          {
+            key: "search",
+            label: t("search"),
+            children: <Search />,
+          },
+          {
+            key: "migration",
+            label: t("migration"),
+            children: <Migration />,
+          },
+          {
+            key: "docs",
+            label: t("docs"),
+            children: <Docs />,
+          },
+          {
+            key: "comments",
+            label: `${t("comments")} (${commentCount})`,
+            children: <Comments />,
+          },
+        ]}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import { Flex, Tag } from "antd";
+import { FC, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { VscSymbolClass } from "react-icons/vsc";
+import Markdown from "react-markdown";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { getNodeDeprecation, NodeArg } from "../misc/b3type";
+import { getSlotName, getSlotType } from "../misc/b3util";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+type DocRow = {
+  kind: "input" | "arg" | "output";
+  name: string;
+  type?: string;
+  default?: string;
+  desc?: string;
+};
+
+const formatDefault = (value: unknown) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+export const Docs: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      collectNodeUsages: state.collectNodeUsages,
+      dockPanel: state.dockPanel,
+      editingNode: state.editingNode,
+      editingNodeDef: state.editingNodeDef,
+      filesVersion: state.filesVersion,
+      nodeDefs: state.nodeDefs,
+      open: state.open,
+      relative: state.relative,
+    }))
+  );
+  const { t } = useTranslation();
+
+  const name = workspace.editingNode?.data.name ?? workspace.editingNodeDef?.data.name;
+  const def = name && workspace.nodeDefs.has(name) ? workspace.nodeDefs.get(name) : undefined;
+  const visible = workspace.dockPanel === "docs";
+
+  // reading all trees is costly, only collect the usages when the panel is visible,
+  // and again when the tree files change on disk
+  const usages = useMemo(() => {
+    return visible && def ? workspace.collectNodeUsages(def.name) : null;
+  }, [visible, def, workspace.filesVersion]);
+
+  if (!def) {
+    return <div className="b3-dock-empty">{t("docs.empty")}</div>;
+  }
+
+  const rows: DocRow[] = [
+    ...(def.input ?? []).map((slot: string) => ({
+      kind: "input" as const,
+      name: getSlotName(slot),
+      type: getSlotType(slot),
+    })),
+    ...(def.args ?? []).map((arg: NodeArg) => ({
+      kind: "arg" as const,
+      name: arg.name,
+      type: arg.type,
+      default: formatDefault(arg.default),
+      desc: arg.desc,
+    })),
+    ...(def.output ?? []).map((slot: string) => ({
+      kind: "output" as const,
+      name: getSlotName(slot),
+      type: getSlotType(slot),
+    })),
+  ];
+  const deprecation = getNodeDeprecation(def);
+  const count = usages?.files.reduce((n, v) => n + v.nodes.length, 0) ?? 0;
+
+  return (
+    <Flex style={{ height: "100%" }}>
+      <div
+        className={mergeClassNames("b3-docs", isMacos ? "" : "b3-overflow")}
+        style={{ overflow: "auto", flex: 1, minWidth: 0 }}
+      >
+        <Flex gap="6px" align="center" wrap>
+          <span style={{ fontSize: "15px", fontWeight: "600" }}>{def.name}</span>
+          <Tag>{def.type}</Tag>
+          {def.group?.map((g: string) => (
+            <Tag key={g} color="blue">
+              {g}
+            </Tag>
+          ))}
+          {deprecation && <Tag color="warning">{t("regnode.deprecated")}</Tag>}
+          <span style={{ color: "gray" }}>{def.desc}</span>
+        </Flex>
+        {deprecation?.message && <div style={{ color: "#d89614" }}>{deprecation.message}</div>}
+        {def.doc && <Markdown className="b3-markdown">{def.doc}</Markdown>}
+        {rows.length > 0 && (
+          <table className="b3-docs-table">
+            <thead>
+              <tr>
+                <th>{t("docs.kind")}</th>
+                <th>{t("docs.name")}</th>
+                <th>{t("docs.type")}</th>
+                <th>{t("docs.default")}</th>
+                <th>{t("docs.desc")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  <td>{t(`docs.${row.kind}`)}</td>
+                  <td>
+                    <code>{row.name}</code>
+                  </td>
+                  <td>{row.type}</td>
+                  <td>{row.default}</td>
+                  <td>{row.desc}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div
+        className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+        style={{
+          overflow: "auto",
+          width: "320px",
+          flexShrink: 0,
+          borderLeft: "1px solid var(--b3-color-border)",
+        }}
+      >
+        <div className="b3-dock-item" style={{ color: "gray", cursor: "default" }}>
+          {count > 0
+            ? t("usages.summary", { name: def.name, count, files: usages!.files.length })
+            : t("usages.notFound", { name: def.name })}
+        </div>
+        {usages?.files.map((file) => (
+          <Flex
+            key={file.path}
+            className="b3-dock-item"
+            gap="6px"
+            align="center"
+            onClick={() => workspace.open(file.path, file.nodes[0].id)}
+          >
+            <VscSymbolClass style={{ flexShrink: 0 }} />
+            <span>{workspace.relative(file.path)}</span>
+            <span className="b3-dock-count">{file.nodes.length}</span>
+          </Flex>
+        ))}
+      </div>
+    </Flex>
+  );
+};
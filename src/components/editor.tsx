@@ -1,25 +1,45 @@
-import { ArrowDownOutlined, ArrowUpOutlined, CloseOutlined } from "@ant-design/icons";
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  CloseOutlined,
+  LeftOutlined,
+  RightOutlined,
+} from "@ant-design/icons";
 import { useSize } from "ahooks";
-import { Button, Dropdown, Flex, FlexProps, Input, InputRef, MenuProps } from "antd";
+import { Button, Dropdown, Flex, FlexProps, Input, InputRef, MenuProps, Slider } from "antd";
 import * as fs from "fs";
 import React, { FC, KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { FiDelete } from "react-icons/fi";
 import { IoMdReturnLeft } from "react-icons/io";
 import { RiFocus3Line } from "react-icons/ri";
-import { VscCaseSensitive } from "react-icons/vsc";
+import {
+  VscCaseSensitive,
+  VscDebugContinue,
+  VscDebugRestart,
+  VscDebugStepInto,
+  VscDebugStepOver,
+  VscDebugStop,
+  VscSave,
+} from "react-icons/vsc";
 import { mergeRefs } from "react-merge-refs";
 import { useDebounceCallback } from "usehooks-ts";
 import { useShallow } from "zustand/react/shallow";
 import {
+  CommentEntry,
   EditEvent,
   EditNode,
   EditorStore,
   EditTree,
   useWorkspace,
 } from "../contexts/workspace-context";
+import { NodeData } from "../misc/b3type";
+import { MigrationChange } from "../misc/b3util";
 import i18n from "../misc/i18n";
 import { Hotkey, isMacos, useKeyDown } from "../misc/keys";
+import { RemoteTick } from "../misc/remote-debug";
+import { SearchMatch } from "../misc/search";
+import { RunStatus } from "../misc/simulator";
 import { mergeClassNames } from "../misc/util";
 import { FilterOption, Graph } from "./graph";
 import "./register-node";
@@ -29,7 +49,7 @@ export interface EditorProps extends React.HTMLAttributes<HTMLElement> {
   onChange: () => void;
 }
 
-const createMenu = () => {
+const createMenu = (simulating: boolean, clickedVars: string[]) => {
   const t = i18n.t;
   const MenuItem: FC<FlexProps> = (itemProps) => {
     return (
@@ -106,6 +126,74 @@ const createMenu = () => {
       key: "saveAsSubtree",
     },
   ];
+  if (clickedVars.length > 0) {
+    arr.push({
+      label: t("renameVar"),
+      key: "renameVar",
+      children: clickedVars.map((v) => ({ label: v, key: `renameVar.${v}` })),
+    });
+  }
+  arr.push(
+    { type: "divider" },
+    {
+      label: (
+        <MenuItem>
+          <div>{simulating ? t("simulate.continue") : t("simulate")}</div>
+          <div>F5</div>
+        </MenuItem>
+      ),
+      key: "simulate",
+    }
+  );
+  if (simulating) {
+    arr.push(
+      {
+        label: (
+          <MenuItem>
+            <div>{t("simulate.step")}</div>
+            <div>F10</div>
+          </MenuItem>
+        ),
+        key: "simulateStep",
+      },
+      {
+        label: (
+          <MenuItem>
+            <div>{t("simulate.stepInto")}</div>
+            <div>F11</div>
+          </MenuItem>
+        ),
+        key: "simulateStepInto",
+      },
+      {
+        label: t("simulate.mock"),
+        key: "mockStatus",
+        children: [
+          { label: t("simulate.success"), key: "mockStatus.success" },
+          { label: t("simulate.failure"), key: "mockStatus.failure" },
+          { label: t("simulate.running"), key: "mockStatus.running" },
+          { label: t("simulate.mockClear"), key: "mockStatus." },
+        ],
+      },
+      {
+        label: (
+          <MenuItem>
+            <div>{t("simulate.stop")}</div>
+            <div>{isMacos ? "⇧ F5" : "Shift+F5"}</div>
+          </MenuItem>
+        ),
+        key: "simulateStop",
+      },
+      {
+        label: t("trace.save"),
+        key: "saveTrace",
+      }
+    );
+  }
+  arr.push({
+    label: t("trace.load"),
+    key: "loadTrace",
+  });
   return arr;
 };
 
@@ -119,6 +207,14 @@ const hotkeyMap: Record<string, EditEvent> = {
   [Hotkey.Backspace]: "delete",
   [Hotkey.Undo]: "undo",
   [Hotkey.Redo]: "redo",
+  [Hotkey.Simulate]: "simulate",
+  [Hotkey.SimulateStep]: "simulateStep",
+  [Hotkey.SimulateStepInto]: "simulateStepInto",
+  [Hotkey.SimulateRestart]: "simulateRestart",
+  [Hotkey.SimulateStop]: "simulateStop",
+  [Hotkey.FitView]: "fitView",
+  [Hotkey.FitSelection]: "fitSelection",
+  [Hotkey.CenterSelection]: "centerSelection",
 };
 
 export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) => {
@@ -138,6 +234,14 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
       Hotkey.Enter,
       Hotkey.Delete,
       Hotkey.Backspace,
+      Hotkey.Simulate,
+      Hotkey.SimulateStep,
+      Hotkey.SimulateStepInto,
+      Hotkey.SimulateRestart,
+      Hotkey.SimulateStop,
+      Hotkey.FitView,
+      Hotkey.FitSelection,
+      Hotkey.CenterSelection,
     ],
     keysRef,
     (e, key) => {
@@ -161,8 +265,21 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
   const sizeRef = useRef(null);
   const editorSize = useSize(sizeRef);
   const { t } = useTranslation();
-  const menuItems = useMemo(() => createMenu(), [t]);
   const [graph, setGraph] = useState<Graph>(null!);
+  const [simulateState, setSimulateState] = useState<{
+    tickCount: number;
+    status?: RunStatus;
+    callStack: NodeData[];
+    /** name of the remote agent being shown */
+    remote?: string;
+  } | null>(null);
+  const [traceState, setTraceState] = useState<{ index: number; ticks: number[] } | null>(null);
+  const simulating = !!simulateState && !simulateState.remote;
+  const [clickedVars, setClickedVars] = useState<string[]>([]);
+  const menuItems = useMemo(
+    () => createMenu(simulating, clickedVars),
+    [t, simulating, clickedVars]
+  );
 
   const [showingSearch, setShowingSearch] = useState(false);
   const [filterOption, setFilterOption] = useState<FilterOption>({
@@ -183,7 +300,6 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
     });
     if (option.results.length > 0) {
       const idx = option.index < option.results.length ? option.index : 0;
-      graph.expandElement();
       graph.focusNode(option.results[idx]);
     } else {
       graph.selectNode(null);
@@ -206,7 +322,6 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
     if (results.length > 0) {
       const idx = (index + 1) % results.length;
       setFilterOption({ ...filterOption, index: idx });
-      graph.expandElement();
       graph.focusNode(results[idx]);
     }
   };
@@ -216,7 +331,6 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
     if (results.length > 0) {
       const idx = (index + results.length - 1) % results.length;
       setFilterOption({ ...filterOption, index: idx });
-      graph.expandElement();
       graph.focusNode(results[idx]);
     }
   };
@@ -262,6 +376,8 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
 
   editor.dispatch = async (event: EditEvent, data: unknown) => {
     if (event === "close") {
+      useWorkspace.getState().updateBlackboard(editor.path, null);
+      useWorkspace.getState().updateComments(editor.path, null);
       graph.destroy();
     } else if (event === "copy") {
       graph.copyNode();
@@ -272,7 +388,7 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
     } else if (event === "insert") {
       await graph.createNode();
     } else if (event === "replace") {
-      graph.replaceNode();
+      graph.replaceNode(data as string | undefined);
     } else if (event === "save") {
       await graph.save();
       onChange();
@@ -288,6 +404,8 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
     } else if (event === "refresh") {
       await graph.refresh();
       editor.mtime = fs.statSync(editor.path).mtimeMs;
+    } else if (event === "refreshNodeDefs") {
+      await graph.refreshNodeDefs();
     } else if (event === "reload") {
       graph.reload();
       editor.mtime = fs.statSync(editor.path).mtimeMs;
@@ -306,8 +424,71 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
       graph.editSubtree();
     } else if (event === "saveAsSubtree") {
       graph.saveAsSubtree();
+    } else if (event === "exportImage") {
+      graph.exportImage();
     } else if (event === "clickVar") {
       graph.clickVar(data as string);
+    } else if (event === "renameVar") {
+      const { from, to } = data as { from: string; to: string };
+      await graph.renameVar(from, to);
+      updateSearchState();
+    } else if (event === "replaceSearch") {
+      const { matches, regexp, replacement } = data as {
+        matches: SearchMatch[];
+        regexp: RegExp;
+        replacement: string;
+      };
+      await graph.replaceSearch(matches, regexp, replacement);
+      updateSearchState();
+    } else if (event === "migrate") {
+      await graph.migrate(data as MigrationChange[]);
+      updateSearchState();
+    } else if (event === "focusNode") {
+      await graph.focusNode(data as string);
+    } else if (event === "fitView") {
+      await graph.fitView();
+    } else if (event === "fitSelection") {
+      await graph.fitSelection();
+    } else if (event === "centerSelection") {
+      await graph.centerSelection();
+    } else if (event === "addComment") {
+      await graph.addComment(data as string);
+    } else if (event === "updateComment") {
+      const { text, ...target } = data as CommentEntry;
+      await graph.updateComment(target, text);
+    } else if (event === "removeComment") {
+      await graph.removeComment(data as CommentEntry);
+    } else if (event === "simulate") {
+      if (graph.simulator || graph.remoteTick !== undefined) {
+        await graph.continueSimulate();
+      } else {
+        graph.startSimulate();
+      }
+    } else if (event === "simulateRestart") {
+      graph.startSimulate();
+    } else if (event === "simulateStep") {
+      await graph.stepSimulate();
+    } else if (event === "simulateStepInto") {
+      await graph.stepIntoSimulate();
+    } else if (event === "simulateStop") {
+      graph.stopSimulate();
+    } else if (event === "mockStatus") {
+      graph.mockStatus((data as RunStatus) || undefined);
+    } else if (event === "remoteTick") {
+      await graph.applyRemoteTick(data as RemoteTick | null);
+    } else if (event === "loadTrace") {
+      await graph.loadTrace();
+    } else if (event === "saveTrace") {
+      await graph.saveTrace();
+    } else if (event === "seekTrace") {
+      await graph.seekTrace(data as number);
+    } else if (event === "closeTrace") {
+      await graph.closeTrace();
+    } else if (event === "remoteBlackboard") {
+      graph.applyRemoteBlackboard(data as Record<string, unknown>);
+    } else if (event === "setBlackboardValue") {
+      const { name, value } = data as { name: string; value: unknown };
+      graph.setBlackboardValue(name, value);
     }
     keysRef.current?.focus();
   };
@@ -319,6 +500,30 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
         onChange();
       }
     };
+    graph.onSimulate = () => {
+      const simulator = graph.simulator;
+      const remoteTick = graph.remoteTick;
+      if (simulator || remoteTick !== undefined) {
+        const agent = useWorkspace.getState().remoteWatching?.agent;
+        setSimulateState({
+          tickCount: simulator ? simulator.tickCount : remoteTick!,
+          status: graph.debugger.statuses["1"],
+          callStack: graph.callStack,
+          remote: simulator ? undefined : agent?.name ?? agent?.id,
+        });
+      } else {
+        setSimulateState(null);
+      }
+      const trace = graph.trace;
+      setTraceState(trace ? { index: graph.traceIndex, ticks: trace.map((v) => v.tick) } : null);
+      const values = graph.blackboard;
+      useWorkspace
+        .getState()
+        .updateBlackboard(
+          editor.path,
+          values ? { values, changed: graph.changedVars, readonly: graph.blackboardReadonly } : null
+        );
+    };
     graph.onUpdateSearch = () => {
       if (filterOption.filterStr) {
         onSearchChange({
@@ -492,11 +697,168 @@ export const Editor: FC<EditorProps> = ({ onChange, data: editor, ...props }) =>
         </Flex>
       )}
 
+      {simulateState && (
+        <Flex
+          vertical
+          gap="6px"
+          style={{ position: "absolute", paddingLeft: "10px", paddingTop: "10px", zIndex: 100 }}
+        >
+          <Flex className="b3-simulate-bar" gap="4px">
+            <Flex className="b3-simulate-info" gap="8px">
+              {simulateState.remote && (
+                <span style={{ color: "gray" }}>
+                  {t("remote.agent", { name: simulateState.remote })}
+                </span>
+              )}
+              <span>{t("simulate.tick", { count: simulateState.tickCount })}</span>
+              {simulateState.callStack.length > 0 ? (
+                <span className="b3-simulate-paused">{t("simulate.paused")}</span>
+              ) : (
+                simulateState.status && (
+                  <span className={`b3-simulate-${simulateState.status}`}>
+                    {t(`simulate.${simulateState.status}`)}
+                  </span>
+                )
+              )}
+            </Flex>
+            <Button
+              icon={<VscDebugContinue />}
+              type="text"
+              size="small"
+              title={`${t("simulate.continue")} (F5)`}
+              onClick={() => editor.dispatch?.("simulate")}
+            />
+            <Button
+              icon={<VscDebugStepOver />}
+              type="text"
+              size="small"
+              title={`${t("simulate.step")} (F10)`}
+              onClick={() => editor.dispatch?.("simulateStep")}
+            />
+            <Button
+              icon={<VscDebugStepInto />}
+              type="text"
+              size="small"
+              title={`${t("simulate.stepInto")} (F11)`}
+              onClick={() => editor.dispatch?.("simulateStepInto")}
+            />
+            {!simulateState.remote && (
+              <Button
+                icon={<VscDebugRestart />}
+                type="text"
+                size="small"
+                title={`${t("simulate.restart")} (${isMacos ? "⇧ ⌘ F5" : "Ctrl+Shift+F5"})`}
+                onClick={() => editor.dispatch?.("simulateRestart")}
+              />
+            )}
+            <Button
+              icon={<VscSave />}
+              type="text"
+              size="small"
+              title={t("trace.save")}
+              onClick={() => editor.dispatch?.("saveTrace")}
+            />
+            <Button
+              icon={<VscDebugStop />}
+              type="text"
+              size="small"
+              title={`${t(simulateState.remote ? "remote.detach" : "simulate.stop")} (${
+                isMacos ? "⇧ F5" : "Shift+F5"
+              })`}
+              onClick={() => editor.dispatch?.("simulateStop")}
+            />
+          </Flex>
+          {simulateState.callStack.length > 0 && (
+            <div className="b3-simulate-stack">
+              <div className="b3-simulate-stack-title">{t("simulate.callStack")}</div>
+              {simulateState.callStack
+                .slice()
+                .reverse()
+                .map((node) => (
+                  <Flex
+                    key={node.id}
+                    className="b3-simulate-stack-item"
+                    gap="6px"
+                    onClick={() => editor.dispatch?.("focusNode", node.id)}
+                  >
+                    <span style={{ color: "gray" }}>
+                      {editor.data.prefix}
+                      {node.id}
+                    </span>
+                    <span>{node.name}</span>
+                    {node.path && <span style={{ color: "gray" }}>{node.path}</span>}
+                  </Flex>
+                ))}
+            </div>
+          )}
+        </Flex>
+      )}
+
+      {traceState && (
+        <Flex className="b3-trace-bar" gap="8px" align="center">
+          <span style={{ minWidth: "80px" }}>
+            {t("simulate.tick", { count: traceState.ticks[traceState.index] })}
+          </span>
+          <Button
+            icon={<LeftOutlined />}
+            type="text"
+            size="small"
+            disabled={traceState.index === 0}
+            onClick={() => editor.dispatch?.("seekTrace", traceState.index - 1)}
+          />
+          <Slider
+            style={{ flex: 1 }}
+            min={0}
+            max={traceState.ticks.length - 1}
+            value={traceState.index}
+            tooltip={{ formatter: (v) => traceState.ticks[v ?? 0] }}
+            onChange={(v) => editor.dispatch?.("seekTrace", v)}
+          />
+          <Button
+            icon={<RightOutlined />}
+            type="text"
+            size="small"
+            disabled={traceState.index === traceState.ticks.length - 1}
+            onClick={() => editor.dispatch?.("seekTrace", traceState.index + 1)}
+          />
+          <Button
+            icon={<CloseOutlined />}
+            type="text"
+            size="small"
+            title={t("trace.close")}
+            onClick={() => editor.dispatch?.("closeTrace")}
+          />
+        </Flex>
+      )}
+
       <Dropdown
-        menu={{ items: menuItems, onClick: (info) => editor.dispatch?.(info.key as EditEvent) }}
+        menu={{
+          items: menuItems,
+          onClick: (info) => {
+            if (info.key.startsWith("mockStatus.")) {
+              editor.dispatch?.("mockStatus", info.key.slice("mockStatus.".length));
+            } else if (info.key.startsWith("renameVar.")) {
+              useWorkspace.getState().showRenameVar(info.key.slice("renameVar.".length));
+            } else {
+              editor.dispatch?.(info.key as EditEvent);
+            }
+          },
+        }}
         trigger={["contextMenu"]}
+        onOpenChange={(open) => open && setClickedVars(graph.clickedVars)}
       >
-        <div tabIndex={-1} style={{ width: "100%", height: "100%" }} ref={graphRef} />
+        <div
+          tabIndex={-1}
+          style={{ width: "100%", height: "100%" }}
+          ref={graphRef}
+          onDragOver={(e) => graph?.dragOverExplore(e.nativeEvent)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+              graph?.dragLeaveExplore();
+            }
+          }}
+          onDrop={(e) => graph?.dropExplore(e.nativeEvent)}
+        />
       </Dropdown>
     </div>
   );
@@ -41,6 +41,8 @@ export type NodeTreeType = {
   title: string;
   path: string;
   def?: NodeDef;
+  /** node config files defining the node */
+  source?: string;
   icon?: React.ReactNode;
   isLeaf?: boolean;
   children?: NodeTreeType[];
@@ -317,6 +319,7 @@ const createNodeTree = (rootName: string, nodeDefs: b3util.NodeDefs) => {
         title: `${nodeDef.name}(${nodeDef.desc})`,
         isLeaf: true,
         def: nodeDef,
+        source: b3util.nodeDefSources[nodeDef.name]?.join(" > "),
         path: `${nodeDef.name}(${g})`,
         icon: (
           <Flex justify="center" align="center" style={{ height: "100%" }}>
@@ -557,6 +560,7 @@ export const Explorer: FC = () => {
       editingNodeDef: state.editingNodeDef,
       editors: state.editors,
       fileTree: state.fileTree,
+      findNodeUsages: state.findNodeUsages,
       nodeDefs: state.nodeDefs,
       workdir: state.workdir,
       onEditingNodeDef: state.onEditingNodeDef,
@@ -574,6 +578,7 @@ export const Explorer: FC = () => {
 
   const rootNodedefName = "nodeTree.root";
   const [selectedNodedefKeys, setSelectedNodedefKeys] = useState<string[]>([]);
+  const [contextNodeDef, setContextNodeDef] = useState<NodeDef | null>(null);
   const [expandedNodedefKeys, setExpandedNodedefKeys] = useState<React.Key[]>([rootNodedefName]);
 
   // set the icon of the root node
@@ -938,7 +943,10 @@ export const Explorer: FC = () => {
                 }
               }}
               onDragStart={(e) => {
-                e.event.dataTransfer.setData("explore-file", e.node.path);
+                // folders are dragged to move them only, the graph accepts tree files
+                if (b3util.isTreeFile(e.node.path)) {
+                  e.event.dataTransfer.setData("explore-file", e.node.path);
+                }
               }}
               draggable={
                 newName !== null
@@ -955,47 +963,64 @@ export const Explorer: FC = () => {
             />
           </div>
         </Dropdown>
-        <DirectoryTree
-          virtual
-          tabIndex={-1}
-          fieldNames={{ key: "path", title: "path" }}
-          treeData={[nodeTree]}
-          expandedKeys={expandedNodedefKeys}
-          selectedKeys={selectedNodedefKeys}
-          onExpand={(keys) => {
-            setExpandedNodedefKeys(keys);
-          }}
-          draggable={{ icon: false, nodeDraggable: (node) => !!node.isLeaf }}
-          titleRender={(node) => (
-            <div style={{ flex: 1, width: 0, minWidth: 0 }}>
-              <div
-                style={{
-                  whiteSpace: "nowrap",
-                  overflow: "hidden",
-                  textOverflow: "ellipsis",
-                }}
-              >
-                {node.title}
-              </div>
-            </div>
-          )}
-          onSelect={(_, info) => {
-            const node = info.node;
-            if (node) {
-              if (node.isLeaf) {
-                workspace.onEditingNodeDef({
-                  data: node.def!,
-                  path: node.path,
-                });
-              }
-              setSelectedNodedefKeys([node.path]);
-            }
-          }}
-          onDragStart={(e) => {
-            e.event.dataTransfer.setData("explore-node", e.node.def?.name ?? "");
+        <Dropdown
+          menu={{
+            items: [{ label: t("usages.find"), key: "findUsages", disabled: !contextNodeDef }],
+            onClick: () => contextNodeDef && workspace.findNodeUsages(contextNodeDef.name),
           }}
-          switcherIcon={<DownOutlined />}
-        />
+          trigger={["contextMenu"]}
+        >
+          <div>
+            <DirectoryTree
+              virtual
+              tabIndex={-1}
+              fieldNames={{ key: "path", title: "path" }}
+              treeData={[nodeTree]}
+              expandedKeys={expandedNodedefKeys}
+              selectedKeys={selectedNodedefKeys}
+              onExpand={(keys) => {
+                setExpandedNodedefKeys(keys);
+              }}
+              draggable={{ icon: false, nodeDraggable: (node) => !!node.isLeaf }}
+              titleRender={(node) => (
+                <div style={{ flex: 1, width: 0, minWidth: 0 }} title={node.source}>
+                  <div
+                    style={{
+                      whiteSpace: "nowrap",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                    }}
+                  >
+                    {node.title}
+                    {node.source && b3util.nodeConfigs.length > 1 && (
+                      <span style={{ color: "gray", marginLeft: "6px" }}>{node.source}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+              onRightClick={(info) => {
+                setContextNodeDef(info.node.def ?? null);
+                setSelectedNodedefKeys([info.node.path]);
+              }}
+              onSelect={(_, info) => {
+                const node = info.node;
+                if (node) {
+                  if (node.isLeaf) {
+                    workspace.onEditingNodeDef({
+                      data: node.def!,
+                      path: node.path,
+                    });
+                  }
+                  setSelectedNodedefKeys([node.path]);
+                }
+              }}
+              onDragStart={(e) => {
+                e.event.dataTransfer.setData("explore-node", e.node.def?.name ?? "");
+              }}
+              switcherIcon={<DownOutlined />}
+            />
+          </div>
+        </Dropdown>
       </Flex>
     </Flex>
   );
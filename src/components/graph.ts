@@ -1,3 +1,4 @@
+import { DisplayObject, FederatedPointerEvent, Group } from "@antv/g-lite";
 import {
   CanvasEvent as G6CanvasEvent,
   Graph as G6Graph,
@@ -5,6 +6,7 @@ import {
   NodeData as G6NodeData,
   NodeEvent as G6NodeEvent,
   Rect as G6Rect,
+  IKeyboardEvent as IG6KeyboardEvent,
   IPointerEvent as IG6PointerEvent,
   treeToGraphData,
 } from "@antv/g6";
@@ -13,14 +15,55 @@ import assert from "assert";
 import { clipboard } from "electron";
 import * as fs from "fs";
 import { ObjectType } from "../behavior3/src/behavior3";
-import { EditNode, EditorStore, EditTree, useWorkspace } from "../contexts/workspace-context";
-import { ImportDecl, isExprType, NodeData, TreeData, VarDecl } from "../misc/b3type";
+import { defaultTreeLayout, useSetting } from "../contexts/setting-context";
+import {
+  CommentEntry,
+  EditNode,
+  EditorStore,
+  EditTree,
+  useWorkspace,
+} from "../contexts/workspace-context";
+import {
+  ImportDecl,
+  isExprType,
+  NodeData,
+  TreeComment,
+  TreeData,
+  TreeLayout,
+  VarDecl,
+} from "../misc/b3type";
 import * as b3util from "../misc/b3util";
+import { TickDebugger } from "../misc/debugger";
+import {
+  composePng,
+  ImageFormat,
+  ImageTheme,
+  renderSvg,
+  withPixelRatio,
+} from "../misc/export-image";
 import { message } from "../misc/hooks";
 import i18n from "../misc/i18n";
 import Path from "../misc/path";
+import { RemoteTick } from "../misc/remote-debug";
+import { replaceNodeField, SearchMatch } from "../misc/search";
+import { RunStatus, Simulator, TickEvent } from "../misc/simulator";
+import {
+  createTraceTicks,
+  formatTrace,
+  parseTrace,
+  TraceRecord,
+  TraceTick,
+  trimTrace,
+} from "../misc/trace";
 import { readTree, writeTree } from "../misc/util";
-import { TreeNodeState, TreeNodeStyle } from "./register-node";
+import {
+  COLLAPSE_EVENT,
+  COMMENT_EVENT,
+  createCanvasComment,
+  NodeDirection,
+  TreeNodeState,
+  TreeNodeStyle,
+} from "./register-node";
 
 type G6NodeState = Exclude<G6GraphOptions["node"], undefined>["state"];
 
@@ -34,6 +77,13 @@ type IGraph = {
 
 const workspace = useWorkspace.getState();
 
+const MINIMAP_SIZE: [number, number] = [200, 150];
+const MINIMAP_PADDING = 10;
+/** Margin around the nodes when fitting the selection. */
+const FIT_PADDING = 40;
+/** The oldest ticks of the recorded trace are dropped beyond this. */
+const MAX_TRACE_RECORDS = 100000;
+
 export interface FilterOption {
   results: string[];
   index: number;
@@ -47,6 +97,7 @@ export interface FilterOption {
 export class Graph {
   onChange?: () => void;
   onUpdateSearch?: () => void;
+  onSimulate?: () => void;
 
   private _graph: G6Graph;
   private _historyStack: string[] = [];
@@ -54,25 +105,80 @@ export class Graph {
   private _dragId?: string;
   private _dropId?: string;
   private _selectedId: string | null = null;
+  private _selectedIds: string[] = [];
+  private _simulator?: Simulator;
+  private _debugger: TickDebugger;
+  private _remoteTick?: number;
+  private _remoteBlackboard?: Record<string, unknown>;
+  private _clickedVars: string[] = [];
+  private _changedVars: string[] = [];
+  private _records: TraceRecord[] = [];
+  private _trace?: TraceTick[];
+  private _traceIndex: number = 0;
+  private _ready: Promise<void>;
+  private _layout: TreeLayout = { ...defaultTreeLayout };
+  private _directions: Map<string, NodeDirection> = new Map();
+  private _collapsedKey?: string;
+  private _container: HTMLElement;
+  private _minimap?: HTMLElement;
+  private _comments?: Group;
 
   constructor(readonly editor: EditorStore, ref: React.RefObject<HTMLDivElement>) {
+    this._debugger = new TickDebugger(
+      (id) => !!this._getNodeData(id)?.debug,
+      (id) => {
+        const data = this._getNodeData(id);
+        return !!data && !!b3util.isSubtreeRoot(data);
+      }
+    );
+    this._container = ref.current!;
     this._graph = new G6Graph({
-      container: ref.current!,
-      behaviors: ["drag-canvas", "zoom-canvas", "hover-activate"],
+      container: this._container,
+      behaviors: [
+        {
+          type: "drag-canvas",
+          enable: (e: IG6PointerEvent | IG6KeyboardEvent) => {
+            // shift + drag is reserved for rubber-band selection, the floating comments are moved
+            return (
+              !("targetType" in e) ||
+              (e.targetType === "canvas" && !e.shiftKey && !this._isCanvasComment(e.originalTarget))
+            );
+          },
+        },
+        "zoom-canvas",
+        "hover-activate",
+        {
+          type: "brush-select",
+          trigger: ["shift"],
+          mode: "union",
+          enableElements: ["node"],
+          enable: (e: IG6PointerEvent) => e.targetType === "canvas",
+          style: {
+            fill: "#1668dc",
+            fillOpacity: 0.1,
+            stroke: "#1668dc",
+            lineWidth: 1,
+          },
+          onSelect: this._onBrushSelect.bind(this),
+        },
+      ],
       animation: false,
-      zoomRange: [0.25, 2],
+      zoomRange: [0.05, 2],
       node: {
         type: "TreeNode",
         style: {
           radius: 4,
           fill: "white",
           size: [260, 50],
-          ports: [{ placement: "right" }, { placement: "left" }],
+          ports: () =>
+            this._layout.direction === "TB"
+              ? [{ placement: "bottom" }, { placement: "top" }]
+              : [{ placement: "right" }, { placement: "left" }],
         },
         state: TreeNodeStyle as G6NodeState,
       },
       edge: {
-        type: "cubic-horizontal",
+        type: () => (this._layout.direction === "TB" ? "cubic-vertical" : "cubic-horizontal"),
         style: {
           lineWidth: 2,
           stroke: "#A3B1BF",
@@ -81,19 +187,7 @@ export class Graph {
           enter: false,
         },
       },
-      layout: {
-        type: "compact-box",
-        direction: "LR",
-        sortBy: (nodeA: G6NodeData, nodeB: G6NodeData) => {
-          const dataA = nodeA.data as unknown as NodeData;
-          const dataB = nodeB.data as unknown as NodeData;
-          return Number(dataA.id) - Number(dataB.id);
-        },
-        getHeight: ({ data }: { data: NodeData }) => data.size![1],
-        getWidth: ({ data }: { data: NodeData }) => data.size![0],
-        getVGap: () => 10,
-        getHGap: () => 30,
-      },
+      layout: this._getLayoutOptions(),
     });
     this._graph.on(G6CanvasEvent.CLICK, this._onCanvasClick.bind(this));
     this._graph.on(G6NodeEvent.CONTEXT_MENU, this._onContextMenu.bind(this));
@@ -104,12 +198,149 @@ export class Graph {
     this._graph.on(G6NodeEvent.DRAG_LEAVE, this._onDragLeave.bind(this));
     this._graph.on(G6NodeEvent.DRAG, this._onDrag.bind(this));
     this._graph.on(G6NodeEvent.DROP, this._onDrop.bind(this));
-    this._update(editor.data);
+    this._graph.on(COLLAPSE_EVENT, (e: IG6PointerEvent<G6Rect>) =>
+      this.toggleCollapse(e.target.id)
+    );
+    this._graph.on(COMMENT_EVENT, () => workspace.showDockPanel("comments"));
+    this._loadCollapsed(editor.data.root);
+    this._ready = this._update(editor.data);
     this._historyIndex = -1;
     this._storeHistory(false);
   }
 
+  /** The layout of the user settings, overridden by the layout of the tree. */
+  getLayout(): TreeLayout {
+    const layout = { ...useSetting.getState().data.treeLayout };
+    for (const [key, value] of Object.entries(this.data.layout ?? {})) {
+      if (value !== undefined) {
+        Object.assign(layout, { [key]: value });
+      }
+    }
+    return layout;
+  }
+
+  private _getLayoutOptions() {
+    const { direction, levelGap, siblingGap } = this._layout;
+    const vertical = direction === "TB";
+    return {
+      type: "compact-box",
+      direction: direction === "mindmap" ? "H" : direction,
+      sortBy: (nodeA: G6NodeData, nodeB: G6NodeData) => {
+        const dataA = nodeA.data as unknown as NodeData;
+        const dataB = nodeB.data as unknown as NodeData;
+        return Number(dataA.id) - Number(dataB.id);
+      },
+      getHeight: ({ data }: { data: NodeData }) => data.size![1],
+      getWidth: ({ data }: { data: NodeData }) => data.size![0],
+      getVGap: () => (vertical ? levelGap : siblingGap),
+      getHGap: () => (vertical ? siblingGap : levelGap),
+    };
+  }
+
+  /**
+   * The direction of the children of every node. A mindmap puts the first half of the root
+   * children on the right, the same as the `H` direction of the compact box layout.
+   */
+  private _updateDirections(root: NodeData) {
+    const { direction } = this._layout;
+    const children = root.children ?? [];
+    const half = Math.round(children.length / 2);
+    this._directions.clear();
+    this._directions.set(root.id, direction === "mindmap" ? "LR" : direction);
+    children.forEach((child, i) => {
+      const d = direction === "mindmap" ? (i < half ? "LR" : "RL") : direction;
+      b3util.dfs(child, (node) => this._directions.set(node.id, d));
+    });
+  }
+
+  /** The minimap plugin removes its container when destroyed, a new one is made every time. */
+  private _updateMinimap() {
+    const visible = useSetting.getState().data.minimap;
+    if (visible === !!this._minimap) {
+      return;
+    }
+    if (visible) {
+      this._minimap = document.createElement("div");
+      this._minimap.className = "b3-minimap";
+      this._minimap.addEventListener("click", this._onMinimapClick.bind(this));
+      this._minimap.addEventListener("contextmenu", (e) => e.stopPropagation());
+      this._container.appendChild(this._minimap);
+      this._graph.setPlugins([
+        {
+          type: "minimap",
+          key: "minimap",
+          container: this._minimap,
+          size: MINIMAP_SIZE,
+          padding: MINIMAP_PADDING,
+          maskStyle: { border: "1px solid #1668dc", background: "rgba(22, 104, 220, 0.1)" },
+        },
+      ]);
+    } else {
+      this._graph.setPlugins([]);
+      this._minimap?.remove();
+      this._minimap = undefined;
+    }
+  }
+
+  /** Centers the view on the clicked point, the minimap shows all elements fitted in its size. */
+  private _onMinimapClick(e: MouseEvent) {
+    // dragging the viewport mask also ends with a click
+    if (!(e.target instanceof HTMLCanvasElement) || !this._minimap) {
+      return;
+    }
+    const { min, max, center } = this._graph.getCanvas().getBounds("elements");
+    const [w, h] = MINIMAP_SIZE;
+    const scale = Math.min(
+      (w - MINIMAP_PADDING * 2) / (max[0] - min[0]),
+      (h - MINIMAP_PADDING * 2) / (max[1] - min[1])
+    );
+    const rect = this._minimap.getBoundingClientRect();
+    const x = center[0] + (e.clientX - rect.left - w / 2) / scale;
+    const y = center[1] + (e.clientY - rect.top - h / 2) / scale;
+    const [vx, vy] = this._graph.getViewportCenter();
+    const [px, py] = this._graph.getViewportByCanvas([x, y]);
+    this._graph.translateBy([vx - px, vy - py], true);
+  }
+
+  async fitView() {
+    await this._graph.fitView({ when: "always" }, true);
+  }
+
+  /** Zooms to show all the selected nodes, never zooms in beyond the actual size. */
+  async fitSelection() {
+    const ids = this._selectedIds.filter((id) => {
+      return !this._getAncestors(id).some((v) => (v.data as unknown as NodeData).collapsed);
+    });
+    if (!ids.length) {
+      message.error(i18n.t("node.noNodeSelected"));
+      return;
+    }
+    const bounds = ids.map((id) => this._graph.getElementRenderBounds(id));
+    const minX = Math.min(...bounds.map((v) => v.min[0]));
+    const minY = Math.min(...bounds.map((v) => v.min[1]));
+    const maxX = Math.max(...bounds.map((v) => v.max[0]));
+    const maxY = Math.max(...bounds.map((v) => v.max[1]));
+    const [w, h] = this._graph.getSize();
+    const zoom = Math.min(
+      (w - FIT_PADDING * 2) / (maxX - minX),
+      (h - FIT_PADDING * 2) / (maxY - minY),
+      1
+    );
+    await this._graph.zoomTo(zoom, false);
+    await this._graph.focusElement(ids, true);
+  }
+
+  async centerSelection() {
+    if (!this._selectedId) {
+      message.error(i18n.t("node.noNodeSelected"));
+      return;
+    }
+    await this.expandTo(this._selectedId);
+    await this._graph.focusElement(this._selectedId, true);
+  }
+
   destroy() {
+    this._simulator?.destroy();
     this._graph.destroy();
   }
 
@@ -128,6 +359,11 @@ export class Graph {
       if (changed) {
         this.onChange?.();
       }
+      this._updateComments();
+      if (this._simulator && !this._simulator.isRunning(this.data)) {
+        // the running tree is out of date, start over
+        this.startSimulate();
+      }
     }
   }
 
@@ -138,6 +374,9 @@ export class Graph {
     this.editor.declare.import = data.import.map((v) => ({ path: v, vars: [], depends: [] }));
     this.editor.declare.vars = data.vars.map((v) => ({ ...v }));
     await this._update(data);
+    if (this._simulator && !this._simulator.isRunning(this.data)) {
+      this.startSimulate();
+    }
     // update tree inspector
     this.selectNode(null);
     this.onChange?.();
@@ -157,6 +396,11 @@ export class Graph {
       graph.context.behavior.currentTarget = null;
     }
 
+    this._layout = this.getLayout();
+    this._graph.setLayout(this._getLayoutOptions());
+    this._updateMinimap();
+    this._updateDirections(data.root);
+
     this._graph.clear();
     this._graph.setData(
       treeToGraphData(data.root, {
@@ -164,6 +408,8 @@ export class Graph {
           return {
             id: node.id,
             prefix: this.data.prefix,
+            direction: this._directions.get(node.id),
+            style: { collapsed: !!node.collapsed && !!node.children?.length },
             data: node as unknown as Record<string, unknown>,
             children: node.children?.map((child) => child.id),
           };
@@ -171,6 +417,182 @@ export class Graph {
       })
     );
     await this._render();
+    this._applyRunStatus();
+    this._saveCollapsed();
+    this._drawComments();
+    this._updateComments();
+  }
+
+  /** Marks the nodes collapsed in the project settings, the ids are refreshed first. */
+  private _loadCollapsed(root: NodeData) {
+    b3util.refreshNodeData(root, 1);
+    const ids = useSetting.getState().getCollapsed(workspace.path, this.editor.path);
+    b3util.dfs(root, (node) => {
+      node.collapsed = ids.includes(node.id) || undefined;
+    });
+    this._collapsedKey = ids.join(",");
+  }
+
+  private _saveCollapsed() {
+    const ids: string[] = [];
+    b3util.dfs(this.data.root, (node) => {
+      if (node.collapsed && node.children?.length) {
+        ids.push(node.id);
+      }
+    });
+    const key = ids.join(",");
+    if (this._collapsedKey !== key) {
+      this._collapsedKey = key;
+      useSetting.getState().setCollapsed(workspace.path, this.editor.path, ids);
+    }
+  }
+
+  /** Lists the comments of the nodes owned by the tree and the floating comments. */
+  private _updateComments() {
+    const comments: CommentEntry[] = [];
+    const traverse = (node: NodeData) => {
+      node.comments?.forEach((v, index) =>
+        comments.push({ ...v, node: node.id, name: node.name, index })
+      );
+      if (!b3util.isSubtreeRoot(node)) {
+        node.children?.forEach(traverse);
+      }
+    };
+    traverse(this.data.root);
+    this.data.comments?.forEach((v, index) => comments.push({ ...v, index }));
+    workspace.updateComments(this.editor.path, comments);
+  }
+
+  /** The floating comments are drawn over the elements, they are not a part of the layout. */
+  private _drawComments() {
+    this._comments?.destroy();
+    this._comments = new Group();
+    this.data.comments?.forEach((comment, index) => {
+      const note = createCanvasComment(comment);
+      let offset: [number, number] | undefined;
+      note.addEventListener("click", () => workspace.showDockPanel("comments"));
+      note.addEventListener("dragstart", (e: FederatedPointerEvent) => {
+        offset = [e.canvasX - comment.x, e.canvasY - comment.y];
+      });
+      note.addEventListener("drag", (e: FederatedPointerEvent) => {
+        if (offset) {
+          note.setPosition(e.canvasX - offset[0], e.canvasY - offset[1]);
+        }
+      });
+      note.addEventListener("dragend", () => {
+        if (offset) {
+          const [x, y] = note.getPosition();
+          offset = undefined;
+          this.data.comments = this.data.comments?.map((v, i) => {
+            return i === index ? { ...v, x: Math.round(x), y: Math.round(y) } : v;
+          });
+          this._storeHistory();
+        }
+      });
+      this._comments!.appendChild(note);
+    });
+    this._graph.getCanvas().appendChild(this._comments);
+  }
+
+  private _isCanvasComment(target: unknown) {
+    return !!this._comments && target instanceof DisplayObject && this._comments.contains(target);
+  }
+
+  private async _setNodeComments(id: string, comments: TreeComment[]) {
+    const node = this._graph.getNodeData(id);
+    node.data = { ...node.data, comments: comments.length ? comments : undefined };
+    this._graph.updateNodeData([node]);
+    await this._graph.draw();
+  }
+
+  /** Comments the selected node, or adds a floating comment at the center of the view. */
+  async addComment(text: string) {
+    text = text.trim();
+    if (!text) {
+      return;
+    }
+    const comment: TreeComment = {
+      text,
+      author: useSetting.getState().getAuthor(),
+      time: Date.now(),
+    };
+    if (this._selectedId) {
+      const subtreeRoot = this._findSubtreeRoot(this._selectedId);
+      if (subtreeRoot && subtreeRoot.id !== this._selectedId) {
+        message.error(i18n.t("node.editSubtreeDenied"));
+        return;
+      }
+      const comments = this._getNodeData(this._selectedId)?.comments ?? [];
+      await this._setNodeComments(this._selectedId, [...comments, comment]);
+    } else {
+      const [x, y] = this._graph.getCanvasByViewport(this._graph.getViewportCenter());
+      const comments = this.data.comments ?? [];
+      this.data.comments = [...comments, { ...comment, x: Math.round(x), y: Math.round(y) }];
+      this._drawComments();
+    }
+    this._storeHistory();
+  }
+
+  async updateComment(target: Pick<CommentEntry, "node" | "index">, text: string) {
+    text = text.trim();
+    if (!text) {
+      return;
+    }
+    if (target.node) {
+      const comments = this._getNodeData(target.node)?.comments ?? [];
+      await this._setNodeComments(
+        target.node,
+        comments.map((v, i) => (i === target.index ? { ...v, text } : v))
+      );
+    } else {
+      this.data.comments = this.data.comments?.map((v, i) => {
+        return i === target.index ? { ...v, text } : v;
+      });
+      this._drawComments();
+    }
+    this._storeHistory();
+  }
+
+  async removeComment(target: Pick<CommentEntry, "node" | "index">) {
+    if (target.node) {
+      const comments = this._getNodeData(target.node)?.comments ?? [];
+      await this._setNodeComments(
+        target.node,
+        comments.filter((_, i) => i !== target.index)
+      );
+    } else {
+      const comments = this.data.comments?.filter((_, i) => i !== target.index);
+      this.data.comments = comments?.length ? comments : undefined;
+      this._drawComments();
+    }
+    this._storeHistory();
+  }
+
+  async toggleCollapse(id: string) {
+    const data = this._getNodeData(id);
+    if (!data?.children?.length) {
+      return;
+    }
+    data.collapsed = !data.collapsed || undefined;
+    if (data.collapsed) {
+      await this._graph.collapseElement(id, false);
+    } else {
+      await this._graph.expandElement(id, false);
+    }
+    this._saveCollapsed();
+  }
+
+  /** Expands the collapsed ancestors to make the node visible. */
+  async expandTo(id: string) {
+    const ancestors = this._getAncestors(id).reverse();
+    for (const node of ancestors) {
+      const data = node.data as unknown as NodeData;
+      if (data.collapsed) {
+        data.collapsed = undefined;
+        await this._graph.expandElement(node.id, false);
+      }
+    }
+    this._saveCollapsed();
   }
 
   setSize(width: number, height: number) {
@@ -223,6 +645,12 @@ export class Graph {
     return this._graph.getAncestorsData(id, "tree") as G6NodeData[];
   }
 
+  private _getNodeData(id: string) {
+    if (this._graph.hasNode(id)) {
+      return this._graph.getNodeData(id).data as unknown as NodeData;
+    }
+  }
+
   private _findSubtreeRoot(id: string): G6NodeData | null {
     const node = this._graph.getNodeData(id);
     const data = node.data as unknown as NodeData | undefined;
@@ -303,14 +731,9 @@ export class Graph {
     return changed;
   }
 
-  async expandElement() {
-    for (const node of this._graph.getNodeData()) {
-      await this._graph.expandElement(node.id, false);
-    }
-  }
-
   clickVar(...names: string[]) {
     console.debug("click variable:", names);
+    this._clickedVars = names;
     const nodes = this._findHightlight(this.data.root, names);
     for (const [node, states] of nodes) {
       const oldStates = this._getState(node.id).sort();
@@ -324,6 +747,11 @@ export class Graph {
     }
   }
 
+  /** names of the variables highlighted by the last `clickVar` */
+  get clickedVars() {
+    return this._clickedVars;
+  }
+
   private _includeString(content: string | undefined, option: FilterOption) {
     if (!content || typeof content !== "string") {
       return false;
@@ -414,6 +842,7 @@ export class Graph {
     if (
       this.data.prefix !== editTree.prefix ||
       this.data.export !== editTree.export ||
+      JSON.stringify(this.data.layout) !== JSON.stringify(editTree.layout) ||
       this.data.name !== editTree.name ||
       this.data.desc !== editTree.desc
     ) {
@@ -424,7 +853,7 @@ export class Graph {
     for (let i = 0; i < max; i++) {
       const v1: VarDecl | undefined = this.editor.declare.vars[i];
       const v2: VarDecl | undefined = editTree.vars[i];
-      if (v1?.name !== v2?.name || v1?.desc !== v2?.desc) {
+      if (v1?.name !== v2?.name || v1?.desc !== v2?.desc || v1?.type !== v2?.type) {
         return true;
       }
     }
@@ -454,6 +883,7 @@ export class Graph {
       this.data.export = editTree.export !== false;
       this.data.group = editTree.group;
       this.data.prefix = editTree.prefix ?? "";
+      this.data.layout = editTree.layout;
       this.data.import = editTree.import.map((v) => v.path).sort();
       this.data.vars = editTree.vars
         .map((v) => ({ ...v }))
@@ -466,6 +896,47 @@ export class Graph {
     }
   }
 
+  async renameVar(from: string, to: string) {
+    const data = { ...this.data, root: this._nodeToData("1") };
+    if (!b3util.renameTreeVar(data, from, to)) {
+      return;
+    }
+    this.selectNode(null);
+    this.editor.declare.vars = data.vars.map((v) => ({ ...v }));
+    await this._update(data);
+    this._storeHistory();
+  }
+
+  async replaceSearch(matches: SearchMatch[], regexp: RegExp, replacement: string) {
+    const data = { ...this.data, root: this._nodeToData("1") };
+    const nodes = new Map<string, NodeData>();
+    b3util.dfsOwnNodes(data.root, (node) => nodes.set(node.id, node));
+    let changed = false;
+    for (const match of matches) {
+      const node = nodes.get(match.id);
+      if (node && replaceNodeField(node, match.field, regexp, replacement)) {
+        changed = true;
+      }
+    }
+    if (!changed) {
+      return;
+    }
+    this.selectNode(null);
+    await this._update(data);
+    this._storeHistory();
+  }
+
+  async migrate(changes: b3util.MigrationChange[]) {
+    const data = { ...this.data, root: this._nodeToData("1") };
+    changes.push(...b3util.migrateTree(data, this.editor.path));
+    if (changes.length === 0) {
+      return;
+    }
+    this.selectNode(null);
+    await this._update(data);
+    this._storeHistory();
+  }
+
   async updateNode(editNode: EditNode) {
     const node = this._graph.getNodeData(editNode.data.id);
     const data = node.data as unknown as NodeData;
@@ -473,8 +944,19 @@ export class Graph {
       return;
     }
 
-    // update node
-    node.data = { ...editNode.data, size: b3util.calcSize(editNode.data) };
+    if (editNode.batch) {
+      await this._updateNodes(data, editNode.data, editNode.batch);
+      this._storeHistory();
+      return;
+    }
+
+    // update node, the comments and the collapsed flag are not edited by the inspector
+    node.data = {
+      ...editNode.data,
+      comments: data.comments,
+      collapsed: data.collapsed,
+      size: b3util.calcSize(editNode.data),
+    };
     this._graph.updateNodeData([node]);
     await this._graph.draw();
 
@@ -487,64 +969,603 @@ export class Graph {
     this._storeHistory();
   }
 
+  /**
+   * Apply the fields changed between `oldData` and `newData` to all nodes in `ids`.
+   * Nodes inside a subtree are skipped, the root of a subtree only accepts debug and disabled
+   * changes.
+   */
+  private async _updateNodes(oldData: NodeData, newData: NodeData, ids: string[]) {
+    const nodes: G6NodeData[] = [];
+    for (const id of ids) {
+      if (!this._graph.hasNode(id)) {
+        continue;
+      }
+      const node = this._graph.getNodeData(id);
+      const data = node.data as unknown as NodeData;
+      const subtreeRoot = this._findSubtreeRoot(id);
+      if (subtreeRoot && subtreeRoot.id !== id) {
+        continue;
+      }
+      const merged = this._mergeNodeData(data, oldData, newData, !!subtreeRoot);
+      if (!b3util.isNodeEqual(data, merged)) {
+        node.data = { ...merged, size: b3util.calcSize(merged) } as Record<string, unknown>;
+        nodes.push(node);
+      }
+    }
+    if (nodes.length > 0) {
+      this._graph.updateNodeData(nodes);
+      await this._graph.draw();
+    }
+  }
+
+  private _mergeNodeData(data: NodeData, oldData: NodeData, newData: NodeData, onlyFlag: boolean) {
+    const merged: NodeData = { ...data };
+    if (oldData.debug !== newData.debug) {
+      merged.debug = newData.debug;
+    }
+    if (oldData.disabled !== newData.disabled) {
+      merged.disabled = newData.disabled;
+    }
+    if (onlyFlag || data.name !== newData.name) {
+      return merged;
+    }
+
+    if (oldData.desc !== newData.desc) {
+      merged.desc = newData.desc;
+    }
+
+    const keys = new Set([...Object.keys(oldData.args ?? {}), ...Object.keys(newData.args ?? {})]);
+    for (const key of keys) {
+      const value = newData.args?.[key];
+      if (JSON.stringify(oldData.args?.[key]) !== JSON.stringify(value)) {
+        merged.args = { ...merged.args };
+        if (value === undefined) {
+          delete merged.args[key];
+        } else {
+          merged.args[key] = value;
+        }
+      }
+    }
+
+    const mergeVars = (oldVars?: string[], newVars?: string[], vars?: string[]) => {
+      const max = Math.max(oldVars?.length ?? 0, newVars?.length ?? 0);
+      for (let i = 0; i < max; i++) {
+        if (oldVars?.[i] !== newVars?.[i]) {
+          vars = vars ? [...vars] : [];
+          vars[i] = newVars?.[i] ?? "";
+        }
+      }
+      return vars;
+    };
+    merged.input = mergeVars(oldData.input, newData.input, merged.input);
+    merged.output = mergeVars(oldData.output, newData.output, merged.output);
+
+    return merged;
+  }
+
   async refresh() {
     this.selectNode(null);
     await this._update(this.data);
     this.selectNode(null);
   }
 
+  /** Re-renders the nodes with the reloaded node definitions, the selection is kept. */
+  async refreshNodeDefs() {
+    await this._update(this.data, false);
+    for (const id of this._selectedIds) {
+      if (this._graph.hasNode(id)) {
+        this._setState(id, [...this._getState(id), "selected"]);
+      }
+    }
+  }
+
   async reload() {
     this.selectNode(null);
-    await this._update(readTree(this.editor.path));
+    const data = readTree(this.editor.path);
+    this._loadCollapsed(data.root);
+    await this._update(data);
     this._storeHistory(false);
     this.selectNode(null);
   }
 
   async focusNode(id: string) {
+    await this.expandTo(id);
     this.selectNode(id);
     await this._graph.translateTo([0, 0], false);
     await this._graph.focusElement(id, true);
   }
 
+  get simulator() {
+    return this._simulator;
+  }
+
+  startSimulate() {
+    if (!this._simulator && this._remoteTick !== undefined && this._debugger.paused) {
+      workspace.sendRemoteCommand("resume");
+    }
+    this._trace = undefined;
+    this._records = [];
+    this._simulator?.destroy();
+    this._simulator = undefined;
+    const declare = this.editor.declare;
+    const vars = [
+      ...declare.vars,
+      ...declare.import.flatMap((v) => v.vars),
+      ...declare.subtree.flatMap((v) => v.vars),
+    ];
+    try {
+      this._simulator = new Simulator(this.editor.path, this.data, vars);
+    } catch (e) {
+      console.error(e);
+      message.error(i18n.t("simulate.startFailed"));
+    }
+    this._debugger.load([]);
+    this._changedVars = [];
+    this._applyRunStatus();
+    this.onSimulate?.();
+  }
+
+  get debugger() {
+    return this._debugger;
+  }
+
+  /** data of the running nodes from the root to the paused node */
+  get callStack() {
+    return this._debugger.callStack
+      .map((id) => this._getNodeData(id))
+      .filter((v) => !!v) as NodeData[];
+  }
+
+  /** Runs to the next breakpoint, ticking the tree if it is not paused. */
+  continueSimulate() {
+    return this._debugSimulate(() => this._debugger.resume());
+  }
+
+  /** Steps over the paused node, or runs a tick to the first breakpoint. */
+  stepSimulate() {
+    return this._debugSimulate((paused) => {
+      return paused ? this._debugger.stepOver() : this._debugger.resume();
+    });
+  }
+
+  /** Steps into the next node, entering subtrees. */
+  stepIntoSimulate() {
+    return this._debugSimulate(() => this._debugger.stepInto(), true);
+  }
+
+  private async _debugSimulate(step: (paused: boolean) => void, stepping: boolean = false) {
+    const paused = !!this._debugger.paused;
+    if (!this._simulator && this._remoteTick !== undefined) {
+      // the remote runtime ticks by itself, only step through the paused tick
+      if (!paused) {
+        return;
+      }
+      step(paused);
+      if (!this._debugger.paused) {
+        workspace.sendRemoteCommand("resume");
+      }
+    } else {
+      if (!this._simulator) {
+        this.startSimulate();
+      }
+      const simulator = this._simulator;
+      if (!simulator) {
+        return;
+      }
+      if (!paused) {
+        const values = simulator.blackboard;
+        // copying the blackboard on every node is only worth it when the tick may pause
+        simulator.recordBlackboard = stepping || this._hasBreakpoint();
+        try {
+          simulator.step();
+        } catch (e) {
+          console.error(e);
+          message.error(i18n.t("simulate.tickFailed"));
+        }
+        this._changedVars = this._diffValues(values, simulator.blackboard);
+        this._debugger.load(simulator.events);
+        this._recordTick(simulator.tickCount, simulator.events);
+        this._recordBlackboard(simulator.blackboard);
+      }
+      step(paused);
+    }
+    await this._showPaused();
+  }
+
+  private _hasBreakpoint() {
+    return this._graph.getNodeData().some((node) => !!(node.data as unknown as NodeData).debug);
+  }
+
+  private async _showPaused() {
+    this._applyRunStatus();
+    const event = this._debugger.paused;
+    if (event && this._graph.hasNode(event.id)) {
+      await this.focusNode(event.id);
+    }
+    this.onSimulate?.();
+  }
+
+  stopSimulate() {
+    if (this._simulator) {
+      this._simulator.destroy();
+      this._simulator = undefined;
+      this._debugger.load([]);
+      this._changedVars = [];
+      this._applyRunStatus();
+      this.onSimulate?.();
+    } else if (this._remoteTick !== undefined) {
+      workspace.unwatchRemoteAgent();
+    }
+  }
+
+  get remoteTick() {
+    return this._remoteTick;
+  }
+
+  /** values of the declared variables while running, as they are at the paused node */
+  get blackboard() {
+    if (this._simulator) {
+      return this._debugger.blackboard ?? this._simulator.blackboard;
+    } else if (this._trace) {
+      return this._trace[this._traceIndex].blackboard;
+    } else {
+      return this._remoteBlackboard;
+    }
+  }
+
+  /** names of the variables changed on the last tick */
+  get changedVars() {
+    return this._changedVars;
+  }
+
+  /** whether the blackboard shows the values at a paused node, which are a record of the tick */
+  get blackboardReadonly() {
+    return !!this._simulator && !!this._debugger.paused;
+  }
+
+  setBlackboardValue(name: string, value: unknown) {
+    if (this.blackboardReadonly) {
+      message.warning(i18n.t("blackboard.pausedReadonly"));
+      return;
+    }
+    if (this._simulator) {
+      this._simulator.setValue(name, value);
+    } else if (this._remoteBlackboard) {
+      this._remoteBlackboard = { ...this._remoteBlackboard, [name]: value };
+      workspace.sendRemoteCommand("setValue", { name, value });
+    }
+    this.onSimulate?.();
+  }
+
+  applyRemoteBlackboard(values: Record<string, unknown>) {
+    if (this._simulator || this._trace) {
+      return;
+    }
+    this._changedVars = this._diffValues(this._remoteBlackboard ?? {}, values);
+    this._remoteBlackboard = values;
+    this._recordBlackboard(values);
+    this.onSimulate?.();
+  }
+
+  private _diffValues(oldValues: Record<string, unknown>, newValues: Record<string, unknown>) {
+    const names = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+    return Array.from(names).filter((name) => {
+      return JSON.stringify(oldValues[name]) !== JSON.stringify(newValues[name]);
+    });
+  }
+
+  /** Shows a tick streamed by a remote runtime, `null` detaches the runtime. */
+  async applyRemoteTick(tick: RemoteTick | null) {
+    if (!tick) {
+      this._remoteTick = undefined;
+      this._remoteBlackboard = undefined;
+      if (!this._simulator && !this._trace) {
+        this._changedVars = [];
+        this._debugger.load([]);
+        await this._showPaused();
+      }
+      return;
+    }
+    if (this._simulator || this._trace || this._debugger.paused) {
+      // local simulation and trace go first, and ticks are dropped while paused on a breakpoint
+      return;
+    }
+
+    const toId = this._toLocalId.bind(this);
+    const events: TickEvent[] =
+      tick.trace?.map((v) => ({ id: toId(v.id), status: v.status, stack: v.stack.map(toId) })) ??
+      Object.entries(tick.statuses).map(([id, status]) => ({ id: toId(id), status, stack: [] }));
+
+    if (this._remoteTick === undefined) {
+      this._records = [];
+    }
+    this._remoteTick = tick.tick;
+    this._debugger.load(events);
+    this._recordTick(tick.tick, events);
+    if (this._debugger.resume()) {
+      workspace.sendRemoteCommand("pause");
+    }
+    await this._showPaused();
+  }
+
+  // remote and trace ids are prefixed like the build data
+  private _toLocalId(id: string) {
+    const prefix = this.data.prefix ?? "";
+    return prefix && id.startsWith(prefix) ? id.slice(prefix.length) : id;
+  }
+
+  private _recordTick(tick: number, events: TickEvent[]) {
+    const prefix = this.data.prefix ?? "";
+    events.forEach((v) => {
+      if (v.status) {
+        this._records.push({ tick, id: prefix + v.id, status: v.status });
+      }
+    });
+    if (this._records.length > MAX_TRACE_RECORDS) {
+      // trimmed by a quarter, so the records are not copied on every tick
+      this._records = trimTrace(this._records, MAX_TRACE_RECORDS * 0.75);
+    }
+  }
+
+  private _recordBlackboard(values: Record<string, unknown>) {
+    const record = this._records.at(-1);
+    if (record && this._changedVars.length > 0) {
+      this._changedVars.forEach((name) => {
+        if (values[name] === undefined) {
+          record.deleted = [...(record.deleted ?? []), name];
+        } else {
+          record.blackboard = { ...record.blackboard, [name]: values[name] };
+        }
+      });
+    }
+  }
+
+  async saveTrace() {
+    if (this._records.length === 0) {
+      message.warning(i18n.t("trace.empty"));
+      return;
+    }
+    const ret = await dialog.showSaveDialog({
+      defaultPath: Path.join(workspace.workdir, `${this.data.name}.jsonl`),
+      properties: ["showOverwriteConfirmation"],
+      filters: [{ name: "Trace", extensions: ["jsonl"] }],
+    });
+    if (!ret.canceled && ret.filePath) {
+      fs.writeFileSync(ret.filePath, formatTrace(this._records));
+    }
+  }
+
+  /**
+   * Renders the whole tree as it is shown in the editor, the selection is left out.
+   * Png images are rendered at twice the pixel ratio of the screen at least.
+   */
+  async toImage(format: ImageFormat, theme: ImageTheme) {
+    await this._ready;
+    const selected = this._graph.getElementDataByState("node", "selected");
+    selected.forEach((v) => {
+      this._setState(
+        v.id,
+        this._getState(v.id).filter((state) => state !== "selected")
+      );
+    });
+    this._setNodeTheme(theme);
+    await this._graph.draw();
+    try {
+      if (format === "svg") {
+        const root = this._graph.getCanvas().getRoot() as unknown as DisplayObject;
+        return Buffer.from(await renderSvg(root, theme));
+      } else {
+        const ratio = Math.max(2, window.devicePixelRatio || 1);
+        const url = await withPixelRatio(ratio, () =>
+          this._graph.toDataURL({ mode: "overall", type: "image/png" })
+        );
+        return await composePng(url, ratio, theme);
+      }
+    } finally {
+      this._setNodeTheme("dark");
+      selected.forEach((v) => this._setState(v.id, [...this._getState(v.id), "selected"]));
+      await this._graph.draw();
+    }
+  }
+
+  /** The nodes are rendered with the palette of the theme, the editor is always dark. */
+  private _setNodeTheme(theme: ImageTheme) {
+    this._graph.updateNodeData(this._graph.getNodeData().map((v) => ({ id: v.id, theme })));
+  }
+
+  async exportImage() {
+    const ret = await dialog.showSaveDialog({
+      defaultPath: Path.join(workspace.workdir, `${Path.basenameWithoutExt(this.editor.path)}.png`),
+      properties: ["showOverwriteConfirmation"],
+      filters: [
+        { name: "PNG", extensions: ["png"] },
+        { name: "SVG", extensions: ["svg"] },
+      ],
+    });
+    if (ret.canceled || !ret.filePath) {
+      return;
+    }
+    const format: ImageFormat = ret.filePath.toLowerCase().endsWith(".svg") ? "svg" : "png";
+    try {
+      const data = await this.toImage(format, useSetting.getState().data.exportTheme);
+      fs.writeFileSync(ret.filePath, data);
+      message.success(i18n.t("exportImage.completed", { path: ret.filePath }));
+    } catch (e) {
+      console.error(e);
+      message.error(i18n.t("exportImage.failed"));
+    }
+  }
+
+  get trace() {
+    return this._trace;
+  }
+
+  get traceIndex() {
+    return this._traceIndex;
+  }
+
+  async loadTrace() {
+    const ret = await dialog.showOpenDialog({
+      defaultPath: workspace.workdir,
+      properties: ["openFile"],
+      filters: [{ name: "Trace", extensions: ["jsonl"] }],
+    });
+    if (ret.canceled || !ret.filePaths.length) {
+      return;
+    }
+
+    let trace: TraceTick[];
+    try {
+      const records = parseTrace(fs.readFileSync(ret.filePaths[0], "utf-8"));
+      trace = createTraceTicks(records, (id) => this._toLocalId(id));
+    } catch (e) {
+      console.error(e);
+      message.error(i18n.t("trace.loadFailed", { msg: (e as Error).message }));
+      return;
+    }
+    if (trace.length === 0) {
+      message.warning(i18n.t("trace.empty"));
+      return;
+    }
+
+    this.stopSimulate();
+    this._trace = trace;
+    await this.seekTrace(0);
+  }
+
+  async seekTrace(index: number) {
+    if (!this._trace) {
+      return;
+    }
+    this._traceIndex = Math.max(0, Math.min(index, this._trace.length - 1));
+    const tick = this._trace[this._traceIndex];
+    this._debugger.load(tick.events);
+    this._debugger.finish();
+    this._changedVars = tick.changed;
+    await this._showPaused();
+  }
+
+  async closeTrace() {
+    if (this._trace) {
+      this._trace = undefined;
+      this._changedVars = [];
+      this._debugger.load([]);
+      await this._showPaused();
+    }
+  }
+
+  mockStatus(status: RunStatus | undefined) {
+    if (this._simulator) {
+      this._selectedIds.forEach((id) => this._simulator!.mock(id, status));
+    }
+  }
+
+  private _applyRunStatus() {
+    const running = this._simulator || this._remoteTick !== undefined || this._trace;
+    const statuses = running ? this._debugger.statuses : {};
+    this._graph.getNodeData().forEach((node) => {
+      const states = this._getState(node.id).filter((v) => !this._isRunState(v));
+      const status = statuses[node.id];
+      if (status) {
+        states.push(`run${status}`);
+      }
+      this._setState(node.id, states);
+    });
+  }
+
   get selectedId() {
     return this._selectedId;
   }
 
+  get selectedIds() {
+    return this._selectedIds;
+  }
+
   selectNode(id: string | null) {
-    if (this._selectedId && id !== this._selectedId) {
-      this._setState(
-        this._selectedId,
-        this._getState(this._selectedId).filter((v) => v !== "selected")
-      );
+    this._selectNodes(id ? [id] : []);
+  }
+
+  toggleSelectNode(id: string) {
+    if (this._selectedIds.includes(id)) {
+      this._selectNodes(this._selectedIds.filter((v) => v !== id));
+    } else {
+      this._selectNodes([...this._selectedIds, id]);
+    }
+  }
+
+  private _selectNodes(ids: string[]) {
+    ids = ids.filter((v) => this._graph.hasNode(v)).unique();
+
+    for (const id of this._selectedIds) {
+      if (!ids.includes(id) && this._graph.hasNode(id)) {
+        this._setState(
+          id,
+          this._getState(id).filter((v) => v !== "selected")
+        );
+      }
     }
 
-    this._selectedId = id;
+    this._selectedIds = ids;
+    this._selectedId = ids.at(-1) ?? null;
+
+    for (const id of ids) {
+      const states = this._getState(id);
+      if (!states.includes("selected")) {
+        this._setState(id, [...states, "selected"]);
+      }
+    }
 
     if (this._selectedId) {
       const node = this._graph.getNodeData(this._selectedId);
       const data = node.data as unknown as NodeData;
+      const batch = ids.length > 1 ? ids.slice() : undefined;
+      const sameName = !!batch?.every((id) => {
+        return (this._graph.getNodeData(id).data as unknown as NodeData).name === data.name;
+      });
       workspace.onEditingNode({
         data: { ...data },
         prefix: this.data.prefix,
-        disabled: this._isSubtreeNode(node.id),
-        subtreeEditable: !this._isSubtreeNode(this._findParent(node.id)?.id),
+        disabled: this._isSubtreeNode(node.id) || (!!batch && !sameName),
+        subtreeEditable: !batch && !this._isSubtreeNode(this._findParent(node.id)?.id),
+        batch,
       });
-      const states = this._getState(this._selectedId);
-      this._setState(this._selectedId, [...states, "selected"]);
     } else {
       workspace.onEditingTree(this.editor);
     }
   }
 
+  /** Returns selected nodes sorted by id, excluding nodes whose ancestor is also selected. */
+  private _getSelectedRoots() {
+    return this._selectedIds
+      .filter((id) => !this._getAncestors(id).some((v) => this._selectedIds.includes(v.id)))
+      .sort((a, b) => Number(a) - Number(b));
+  }
+
+  private _onBrushSelect(states: Record<string, unknown>) {
+    const ids = Object.keys(states);
+    // selection states are managed by ourself
+    ids.forEach((id) => delete states[id]);
+    this._selectNodes([...this._selectedIds, ...ids]);
+  }
+
   private _onContextMenu(e: IG6PointerEvent<G6Rect>) {
-    this.selectNode(e.target.id);
+    if (!this._selectedIds.includes(e.target.id)) {
+      this.selectNode(e.target.id);
+    }
   }
 
   private _onCanvasClick(e: IG6PointerEvent<G6Rect>) {
+    if (e.shiftKey) {
+      return;
+    }
     this.selectNode(null);
   }
 
   private _onClick(e: IG6PointerEvent<G6Rect>) {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      this.toggleSelectNode(e.target.id);
+      return;
+    }
     const names: string[] = [];
     const originalTarget = e.originalTarget;
     if (originalTarget.className === "input-text") {
@@ -562,7 +1583,10 @@ export class Graph {
 
   private _isDragState(state: string): boolean {
     return (
-      state === "dragsrc" || state === "dragup" || state === "dragdown" || state === "dragright"
+      state === "dragsrc" ||
+      state === "dragbefore" ||
+      state === "dragafter" ||
+      state === "dragchild"
     );
   }
 
@@ -575,6 +1599,10 @@ export class Graph {
     );
   }
 
+  private _isRunState(state: string): boolean {
+    return state === "runsuccess" || state === "runfailure" || state === "runrunning";
+  }
+
   private _getState(id: string) {
     return this._graph.getElementState(id) as TreeNodeState[];
   }
@@ -629,20 +1657,30 @@ export class Graph {
     if (!this._dropId) {
       return;
     }
-    const id = this._dropId;
+    this._updateDropState(this._dropId, e.canvas.x, e.canvas.y);
+  }
+
+  private _updateDropState(id: string, canvasX: number, canvasY: number) {
     const pos = this._graph.getElementPosition(id);
     const data = this._graph.getNodeData(id).data as unknown as NodeData;
     const [w, h] = data.size!;
-    const x = e.canvas.x - pos[0];
-    const y = e.canvas.y - pos[1];
+    const x = canvasX - pos[0];
+    const y = canvasY - pos[1];
     const states = this._getState(id);
+    const direction = this._directions.get(id) ?? "LR";
     let dragto: TreeNodeState | undefined;
-    if (x > w / 2) {
-      dragto = "dragright";
+    if (direction === "TB") {
+      if (y > h / 2) {
+        dragto = "dragchild";
+      } else {
+        dragto = x < w / 2 ? "dragbefore" : "dragafter";
+      }
+    } else if (direction === "RL" ? x < w / 2 : x > w / 2) {
+      dragto = "dragchild";
     } else if (y > h / 2) {
-      dragto = "dragdown";
+      dragto = "dragafter";
     } else if (y < h / 2) {
-      dragto = "dragup";
+      dragto = "dragbefore";
     }
     if (dragto && !states.includes(dragto)) {
       // console.log(`drag node: drop=${id} dropto=${dragto}`, states);
@@ -663,111 +1701,198 @@ export class Graph {
     this._clearDragState(srcId);
     this._clearDragState(dstId);
 
-    if (srcId === e.target.id) {
+    const srcIds = this._selectedIds.includes(srcId) ? this._getSelectedRoots() : [srcId];
+
+    if (srcIds.includes(dstId)) {
       console.log("drop same node");
       return;
     }
 
     const ancestors = this._getAncestors(dstId);
     if (
-      ancestors.some((v) => v.id === srcId) ||
-      ((dragto === "dragdown" || dragto === "dragup") && dstId === "1")
+      srcIds.includes("1") ||
+      ancestors.some((v) => srcIds.includes(v.id)) ||
+      ((dragto === "dragafter" || dragto === "dragbefore") && dstId === "1")
     ) {
       message.error(i18n.t("node.dropDenied"));
       return;
     }
 
-    if (this._isSubtreeNode(dstId)) {
+    // the nodes inside a subtree belong to its file, only the subtree root can be moved
+    const insideSubtree = srcIds.some((id) => {
+      const data = this._graph.getNodeData(id).data as unknown as NodeData;
+      return this._isSubtreeNode(id) && !b3util.isSubtreeRoot(data);
+    });
+    if (this._isSubtreeNode(dstId) || insideSubtree) {
       message.error(i18n.t("node.editSubtreeDenied"));
       return;
     }
 
-    console.log(`drop node: drag=${srcId} target=${dstId} dropto=${dragto}`);
-
-    if (e.originalEvent instanceof DragEvent) {
-      // const dragEvent = e.originalEvent as DragEvent;
-      // const exploreFile = dragEvent.dataTransfer?.getData("explore-file");
-      // const exploreNode = dragEvent.dataTransfer?.getData("explore-node");
-      // const dstData = findDataById(destNode.getID());
-      // if (exploreNode) {
-      //   const newTreeData: TreeGraphData = createTreeData(
-      //     {
-      //       id: editor.autoId++,
-      //       name: exploreNode,
-      //     },
-      //     dstData.id
-      //   );
-      //   dstData.children ||= [];
-      //   dstData.children.push(newTreeData);
-      //   refreshItem(dstData);
-      //   srcNodeId = newTreeData.id;
-      // } else if (exploreFile && exploreFile !== editor.path) {
-      //   const newTreeData: TreeGraphData = createTreeData(
-      //     {
-      //       id: editor.autoId++,
-      //       name: "unknow",
-      //       path: workspace.relative(exploreFile),
-      //     },
-      //     dstData.id
-      //   );
-      //   dstData.children ||= [];
-      //   dstData.children.push(newTreeData);
-      //   refreshItem(dstData);
-      //   srcNodeId = newTreeData.id;
-      //   editor.autoId = b3util.refreshTreeDataId(newTreeData, Number(srcNodeId));
-      // }
-    }
+    console.log(`drop node: drag=${srcIds} target=${dstId} dropto=${dragto}`);
 
     const root = this._nodeToData("1");
 
-    const srcParentId = this._graph.getParentData(srcId, "tree")?.id;
     const dstParentId = this._graph.getParentData(dstId, "tree")?.id;
 
-    let srcData: NodeData | undefined;
+    const srcList: NodeData[] = [];
     let dstData: NodeData | undefined;
-    let srcParentData: NodeData | undefined;
     let dstParentData: NodeData | undefined;
 
     b3util.dfs(root, (node) => {
-      if (node.id === srcId) {
-        srcData = node;
-      }
       if (node.id === dstId) {
         dstData = node;
       }
-      if (node.id === srcParentId) {
-        srcParentData = node;
-      }
       if (node.id === dstParentId) {
         dstParentData = node;
       }
+      // detach dragged nodes from their parents
+      const children = node.children?.filter((v) => srcIds.includes(v.id));
+      if (children?.length) {
+        srcList.push(...children);
+        node.children = node.children?.filter((v) => !srcIds.includes(v.id));
+      }
     });
 
-    assert(srcData, srcId);
     assert(dstData, dstId);
-    assert(srcParentData, srcParentId);
+    assert(srcList.length === srcIds.length, srcIds.join(","));
+    srcList.sort((a, b) => Number(a.id) - Number(b.id));
 
-    if (dragto === "dragright") {
-      srcParentData.children?.remove(srcData);
+    if (dragto === "dragchild") {
       dstData.children ||= [];
-      dstData.children.push(srcData);
-    } else if (dragto === "dragup") {
+      dstData.children.push(...srcList);
+    } else if (dragto === "dragbefore") {
       assert(dstParentData, dstParentId);
-      srcParentData.children?.remove(srcData);
       const idx = dstParentData.children!.findIndex((v) => v.id === dstId);
-      dstParentData.children?.insertAt(idx, srcData);
-    } else if (dragto === "dragdown") {
+      dstParentData.children?.splice(idx, 0, ...srcList);
+    } else if (dragto === "dragafter") {
       assert(dstParentData, dstParentId);
-      srcParentData.children?.remove(srcData);
       const idx = dstParentData.children!.findIndex((v) => v.id === dstId);
-      dstParentData.children?.insertAt(idx + 1, srcData);
+      dstParentData.children?.splice(idx + 1, 0, ...srcList);
     }
     await this._update({ ...this.data, root }, false);
     this._storeHistory();
   }
 
+  private _findNodeAt(x: number, y: number) {
+    return this._graph.getNodeData().find((node) => {
+      const [nx, ny] = this._graph.getElementPosition(node.id);
+      const [w, h] = (node.data as unknown as NodeData).size!;
+      return x >= nx && x <= nx + w && y >= ny && y <= ny + h;
+    });
+  }
+
+  /**
+   * The dragged data is only readable on drop, the explorer sets `explore-file` for tree files
+   * only, so the type is enough while dragging over.
+   */
+  private _isExploreDrag(e: DragEvent) {
+    const types = e.dataTransfer?.types ?? [];
+    if (types.includes("explore-node")) {
+      return true;
+    } else if (!types.includes("explore-file")) {
+      return false;
+    }
+    const file = e.dataTransfer!.getData("explore-file");
+    return !file || b3util.isTreeFile(file);
+  }
+
+  dragOverExplore(e: DragEvent) {
+    if (!this._isExploreDrag(e)) {
+      return;
+    }
+    e.preventDefault();
+    const [x, y] = this._graph.getCanvasByClient([e.clientX, e.clientY]);
+    const id = this._findNodeAt(x, y)?.id;
+    if (this._dropId && this._dropId !== id) {
+      this._clearDragState(this._dropId);
+    }
+    this._dropId = id;
+    if (id) {
+      this._updateDropState(id, x, y);
+    }
+  }
+
+  dragLeaveExplore() {
+    if (this._dropId) {
+      this._clearDragState(this._dropId);
+      this._dropId = undefined;
+    }
+  }
+
+  async dropExplore(e: DragEvent) {
+    if (!this._isExploreDrag(e) || !this._dropId) {
+      return;
+    }
+    e.preventDefault();
+
+    const dstId = this._dropId;
+    const dragto = this._getState(dstId).find((v) => this._isDragState(v));
+    this._dropId = undefined;
+    this._clearDragState(dstId);
+
+    const exploreNode = e.dataTransfer?.getData("explore-node");
+    const exploreFile = e.dataTransfer?.getData("explore-file");
+    let newData: NodeData;
+    if (exploreNode) {
+      newData = { id: "", name: exploreNode };
+    } else if (exploreFile && exploreFile !== this.editor.path) {
+      newData = { id: "", name: "unknow", path: workspace.relative(exploreFile) };
+    } else {
+      return;
+    }
+
+    if ((dragto === "dragafter" || dragto === "dragbefore") && dstId === "1") {
+      message.error(i18n.t("node.dropDenied"));
+      return;
+    }
+
+    if (this._isSubtreeNode(dstId)) {
+      message.error(i18n.t("node.editSubtreeDenied"));
+      return;
+    }
+
+    console.log(`drop explore: ${exploreNode || exploreFile} target=${dstId} dropto=${dragto}`);
+
+    const root = this._nodeToData("1");
+    const dstParentId = this._findParent(dstId)?.id;
+    let dstData: NodeData | undefined;
+    let dstParentData: NodeData | undefined;
+    b3util.dfs(root, (node) => {
+      if (node.id === dstId) {
+        dstData = node;
+      }
+      if (node.id === dstParentId) {
+        dstParentData = node;
+      }
+    });
+
+    assert(dstData, dstId);
+    if (dragto === "dragbefore" || dragto === "dragafter") {
+      assert(dstParentData, dstParentId);
+      const idx = dstParentData.children!.findIndex((v) => v.id === dstId);
+      dstParentData.children?.insertAt(dragto === "dragbefore" ? idx : idx + 1, newData);
+    } else {
+      dstData.children ||= [];
+      dstData.children.push(newData);
+    }
+    await this._update({ ...this.data, root });
+    this._storeHistory();
+    // id is assigned by refreshNodeData
+    this.selectNode(newData.id);
+  }
+
   copyNode() {
-    if (this._selectedId) {
+    if (this._selectedIds.length > 1) {
+      const root = this._nodeToData("1");
+      const ids = this._getSelectedRoots();
+      const nodes: NodeData[] = [];
+      b3util.dfs(root, (node) => {
+        if (ids.includes(node.id)) {
+          nodes.push(b3util.createNode(node));
+        }
+      });
+      clipboard.writeText(JSON.stringify(nodes));
+    } else if (this._selectedId) {
       const node = this._graph.getNodeData(this._selectedId);
       if (node) {
         const data = node.data as unknown as NodeData;
@@ -777,6 +1902,11 @@ export class Graph {
     }
   }
 
+  private _parseClipboard(str: string) {
+    const data = JSON.parse(str) as NodeData | NodeData[];
+    return data instanceof Array ? data : [data];
+  }
+
   async pasteNode() {
     if (!this._selectedId) {
       message.error(i18n.t("node.noNodeSelected"));
@@ -805,7 +1935,7 @@ export class Graph {
 
       assert(dstData, this._selectedId);
       dstData.children ||= [];
-      dstData.children.push(JSON.parse(str) as NodeData);
+      dstData.children.push(...this._parseClipboard(str));
       this.selectNode(null);
       await this._update({ ...this.data, root });
       this._storeHistory();
@@ -815,7 +1945,8 @@ export class Graph {
     }
   }
 
-  async replaceNode() {
+  /** Replaces the selected node with the clipboard, or with the node `name` keeping the args and slots. */
+  async replaceNode(name?: string) {
     if (!this._selectedId) {
       message.error(i18n.t("node.noNodeSelected"));
       return;
@@ -827,8 +1958,8 @@ export class Graph {
     }
 
     try {
-      const str = clipboard.readText();
-      if (!str || str === "") {
+      const str = name ? "" : clipboard.readText();
+      if (!name && (!str || str === "")) {
         return;
       }
 
@@ -841,8 +1972,15 @@ export class Graph {
       });
 
       assert(dstData, this._selectedId);
+      const newData = name
+        ? b3util.mapNodeToDef(dstData, b3util.nodeDefs.get(name))
+        : this._parseClipboard(str)[0];
+      if (!newData) {
+        message.error(i18n.t("node.replaceChildrenDenied", { name }));
+        return;
+      }
       Object.keys(dstData).forEach((k) => delete (dstData as unknown as ObjectType)[k]);
-      Object.assign(dstData, JSON.parse(str));
+      Object.assign(dstData, newData);
       this.selectNode(null);
       await this._update({ ...this.data, root });
       this._storeHistory();
@@ -883,26 +2021,27 @@ export class Graph {
       return;
     }
 
-    if (this._selectedId === "1") {
+    const ids = this._getSelectedRoots();
+
+    if (ids.includes("1")) {
       message.error(i18n.t("node.deleteRootNodeDenied"));
       return;
     }
 
-    const subtreeRoot = this._getAncestors(this._selectedId)
-      .reverse()
-      .find((v) => (v.data as unknown as NodeData)?.path);
+    for (const id of ids) {
+      const subtreeRoot = this._getAncestors(id)
+        .reverse()
+        .find((v) => (v.data as unknown as NodeData)?.path);
 
-    if (subtreeRoot && subtreeRoot.id !== this._selectedId) {
-      message.error(i18n.t("node.editSubtreeDenied"));
-      return;
+      if (subtreeRoot && subtreeRoot.id !== id) {
+        message.error(i18n.t("node.editSubtreeDenied"));
+        return;
+      }
     }
 
     const root = this._nodeToData("1");
-    const parentId = this._findParent(this._selectedId)?.id;
     b3util.dfs(root, (n) => {
-      if (n.id === parentId) {
-        n.children = n.children?.filter((v) => v.id !== this._selectedId);
-      }
+      n.children = n.children?.filter((v) => !ids.includes(v.id));
     });
     this.selectNode(null);
     await this._update({ ...this.data, root });
@@ -988,7 +2127,8 @@ export class Graph {
 
     const node = this._graph.getNodeData(this._selectedId);
     const data = node.data as unknown as NodeData;
-    const subroot = b3util.createFileData(data);
+    // saved like the tree files, keeping the comments of the nodes
+    const subroot = b3util.createNode(this._nodeToData(this._selectedId));
     const subtreeModel = {
       name: Path.basenameWithoutExt(subpath),
       root: subroot,
@@ -1000,3 +2140,50 @@ export class Graph {
     this._storeHistory();
   }
 }
+
+/**
+ * Renders every tree of the workspace offscreen and writes the images into `dir`,
+ * keeping the folders of the trees. `onProgress` is called after each tree with the
+ * written image, or with the tree and the error. Returns the number of failed trees.
+ */
+export const exportTreeImages = async (
+  dir: string,
+  format: ImageFormat,
+  theme: ImageTheme,
+  onProgress: (path: string, error?: string) => void
+) => {
+  // node sizes are measured with the font of the workspace, wait until it is rendered
+  for (let i = 0; i < 100 && !document.querySelector(".b3-workspace"); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  const container = document.createElement("div");
+  container.style.cssText = "position: fixed; left: -10000px; top: 0; width: 1280px; height: 800px";
+  document.body.appendChild(container);
+  let failed = 0;
+  for (const file of useWorkspace.getState().allFiles.values()) {
+    if (!fs.existsSync(file.path)) {
+      continue;
+    }
+    const output = Path.join(
+      dir,
+      workspace.relative(file.path).replace(/\.json$/, "") + `.${format}`
+    );
+    let graph: Graph | undefined;
+    try {
+      const editor = new EditorStore(file.path);
+      b3util.refreshVarDecl(editor.data.root, editor.data.group, editor.declare);
+      graph = new Graph(editor, { current: container });
+      const data = await graph.toImage(format, theme);
+      fs.mkdirSync(Path.dirname(output), { recursive: true });
+      fs.writeFileSync(output, data);
+      onProgress(output);
+    } catch (e) {
+      onProgress(file.path, String(e));
+      failed++;
+    } finally {
+      graph?.destroy();
+    }
+  }
+  container.remove();
+  return failed;
+};
@@ -6,6 +6,7 @@ import {
   PlusOutlined,
 } from "@ant-design/icons";
 import {
+  Alert,
   AutoComplete,
   Button,
   Divider,
@@ -22,12 +23,18 @@ import TextArea from "antd/es/input/TextArea";
 import { DefaultOptionType } from "antd/es/select";
 import { FC, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { VscReferences } from "react-icons/vsc";
 import Markdown from "react-markdown";
 import { useDebounceCallback } from "usehooks-ts";
 import { useShallow } from "zustand/react/shallow";
-import { ExpressionEvaluator } from "../behavior3/src/behavior3";
+import { ExpressionEvaluator, NodeDef } from "../behavior3/src/behavior3";
+import { useSetting } from "../contexts/setting-context";
 import { EditNode, EditTree, useWorkspace } from "../contexts/workspace-context";
 import {
+  getNodeArgRule,
+  getNodeArgSchema,
+  getNodeArgSource,
+  getNodeDeprecation,
   hasArgOptions,
   ImportDecl,
   isBoolType,
@@ -36,25 +43,40 @@ import {
   isIntType,
   isJsonType,
   isStringType,
+  layoutDirections,
   NodeArg,
+  NodeArgRule,
+  NodeArgRuleError,
+  NodeArgSource,
   NodeData,
+  NodeDeprecation,
+  TreeLayout,
   VarDecl,
 } from "../misc/b3type";
 import {
+  checkNodeArgLength,
+  checkNodeArgRule,
+  checkNodeArgSchema,
   checkNodeArgValue,
   checkOneof,
+  checkVarType,
   getNodeArgRawType,
+  getSlotName,
+  getSlotType,
   isNodeArgArray,
   isNodeArgOptional,
   isValidChildren,
   isValidVariableName,
   isVariadic,
   parseExpr,
+  resolveNodeArgOptions,
+  resolveNodeArgSchema,
 } from "../misc/b3util";
 import { message } from "../misc/hooks";
 import i18n from "../misc/i18n";
 import { Hotkey, isMacos } from "../misc/keys";
 import { mergeClassNames } from "../misc/util";
+import { JsonSchemaForm } from "./json-schema-form";
 
 interface OptionType extends DefaultOptionType {
   value: string;
@@ -76,12 +98,30 @@ const VarDeclItem: FC<VarItemProps> = ({ name, onChange, onRemove, disabled, ...
   const { t } = useTranslation();
   const form = useFormInstance();
   const [value, setValue] = useState<VarItem>(props.value ?? { name: "", desc: "" });
-  const { editing } = useWorkspace(
+  const { editing, nodeDefs, showRenameVar } = useWorkspace(
     useShallow((state) => ({
       editing: state.editing,
+      nodeDefs: state.nodeDefs,
+      showRenameVar: state.showRenameVar,
     }))
   );
 
+  // types declared by the input and output slots
+  const typeOptions = useMemo(() => {
+    const types: Set<string> = new Set();
+    nodeDefs.forEach((def) => {
+      [...(def.input ?? []), ...(def.output ?? [])].forEach((slot) => {
+        const type = getSlotType(slot);
+        if (type) {
+          types.add(type);
+        }
+      });
+    });
+    return Array.from(types)
+      .sort((a, b) => a.localeCompare(b))
+      .map((v) => ({ label: v, value: v }));
+  }, [nodeDefs]);
+
   const onSubmit = () => {
     onChange?.(value);
     form.submit();
@@ -124,7 +164,22 @@ const VarDeclItem: FC<VarItemProps> = ({ name, onChange, onRemove, disabled, ...
           onBlur={onSubmit}
           onChange={(e) => setValue({ ...value, desc: e.target.value })}
         />
+        <AutoComplete
+          disabled={disabled}
+          value={value.type}
+          options={typeOptions}
+          placeholder={t("tree.vars.type")}
+          style={{ minWidth: "90px", maxWidth: "90px" }}
+          onBlur={onSubmit}
+          onChange={(type: string) => setValue({ ...value, type: type || undefined })}
+          onInputKeyDown={(e) => e.code === Hotkey.Escape && e.preventDefault()}
+        />
       </Space.Compact>
+      <FormOutlined
+        style={{ marginBottom: "6px", visibility: props.value?.name ? "visible" : "hidden" }}
+        title={t("renameVar")}
+        onClick={() => props.value?.name && showRenameVar(props.value.name)}
+      />
       {!disabled && (
         <MinusCircleOutlined
           style={{ marginBottom: "6px" }}
@@ -139,6 +194,21 @@ const VarDeclItem: FC<VarItemProps> = ({ name, onChange, onRemove, disabled, ...
   );
 };
 
+/** Keeps the fields set in the tree, the others follow the user settings. */
+const createTreeLayout = (layout?: Partial<Record<keyof TreeLayout, unknown>>) => {
+  const result: Partial<TreeLayout> = {};
+  if (layout?.direction) {
+    result.direction = layout.direction as TreeLayout["direction"];
+  }
+  if (typeof layout?.levelGap === "number") {
+    result.levelGap = layout.levelGap;
+  }
+  if (typeof layout?.siblingGap === "number") {
+    result.siblingGap = layout.siblingGap;
+  }
+  return Object.keys(result).length ? result : undefined;
+};
+
 const TreeInspector: FC = () => {
   const workspace = useWorkspace(
     useShallow((state) => ({
@@ -154,6 +224,7 @@ const TreeInspector: FC = () => {
       usingVars: state.usingVars,
     }))
   );
+  const treeLayout = useSetting((state) => state.data.treeLayout);
   const { t } = useTranslation();
   const [form] = Form.useForm();
 
@@ -219,12 +290,14 @@ const TreeInspector: FC = () => {
     form.setFieldValue("desc", workspace.editingTree.desc);
     form.setFieldValue("export", workspace.editingTree.export !== false);
     form.setFieldValue("prefix", workspace.editingTree.prefix);
+    form.setFieldValue("layout", { ...workspace.editingTree.layout });
     form.setFieldValue("group", workspace.editingTree.group);
     form.setFieldValue(
       "vars",
       workspace.editingTree.vars.map((v) => ({
         name: v.name,
         desc: v.desc,
+        type: v.type,
         count: usingCount[v.name] ?? 0,
       }))
     );
@@ -235,6 +308,7 @@ const TreeInspector: FC = () => {
         vars: entry.vars.map((v) => ({
           name: v.name,
           desc: v.desc,
+          type: v.type,
           count: usingCount[v.name] ?? 0,
         })),
       }))
@@ -246,6 +320,7 @@ const TreeInspector: FC = () => {
         vars: entry.vars.map((v) => ({
           name: v.name,
           desc: v.desc,
+          type: v.type,
           count: usingCount[v.name] ?? 0,
         })),
       }))
@@ -259,12 +334,14 @@ const TreeInspector: FC = () => {
       desc: values.desc,
       export: values.export,
       prefix: values.prefix,
+      layout: createTreeLayout(values.layout),
       group: ((values.group ?? []) as string[]).filter((g) => g).sort((a, b) => a.localeCompare(b)),
       vars: (values.vars as VarDecl[])
         .filter((v) => v && v.name)
         .map((v) => ({
           name: v.name,
           desc: v.desc,
+          type: v.type?.trim() || undefined,
         }))
         .sort((a, b) => a.name.localeCompare(b.name)),
       import: (values.import as ImportDecl[])
@@ -272,7 +349,7 @@ const TreeInspector: FC = () => {
         .sort((a, b) => a.path.localeCompare(b.path))
         .map((v) => ({
           path: v.path,
-          vars: (v.vars ?? []).map((v1) => ({ name: v1.name, desc: v1.desc })),
+          vars: (v.vars ?? []).map((v1) => ({ name: v1.name, desc: v1.desc, type: v1.type })),
         })),
     } as EditTree);
   };
@@ -305,6 +382,36 @@ const TreeInspector: FC = () => {
             <Form.Item name="export" label={t("tree.export")} valuePropName="checked">
               <Switch onChange={() => form.submit()} />
             </Form.Item>
+            <Form.Item name={["layout", "direction"]} label={t("tree.layout")}>
+              <Select
+                allowClear
+                placeholder={t(`treeLayout.${treeLayout.direction}`)}
+                onChange={form.submit}
+                options={layoutDirections.map((v) => ({ label: t(`treeLayout.${v}`), value: v }))}
+              />
+            </Form.Item>
+            <Form.Item label={t("tree.layoutGap")}>
+              <Flex gap={4}>
+                <Form.Item name={["layout", "levelGap"]} noStyle>
+                  <InputNumber
+                    min={0}
+                    title={t("tree.levelGap")}
+                    placeholder={`${t("tree.levelGap")} ${treeLayout.levelGap}`}
+                    style={{ flex: 1 }}
+                    onBlur={form.submit}
+                  />
+                </Form.Item>
+                <Form.Item name={["layout", "siblingGap"]} noStyle>
+                  <InputNumber
+                    min={0}
+                    title={t("tree.siblingGap")}
+                    placeholder={`${t("tree.siblingGap")} ${treeLayout.siblingGap}`}
+                    style={{ flex: 1 }}
+                    onBlur={form.submit}
+                  />
+                </Form.Item>
+              </Flex>
+            </Form.Item>
           </>
           {workspace.groupDefs.length > 0 && (
             <>
@@ -513,6 +620,10 @@ const TreeInspector: FC = () => {
   );
 };
 
+const formatArgRuleError = (e: NodeArgRuleError) => {
+  return new Error(i18n.t(`node.argRule.${e.rule}`, { limit: e.limit }));
+};
+
 const validateArg = (
   node: NodeData,
   arg: NodeArg,
@@ -538,18 +649,29 @@ const validateArg = (
       }
     }
   }
+  let parsed = value;
   if (value && isJsonType(type)) {
     try {
-      if (value !== "null") {
-        JSON.parse(value as string);
-      }
+      parsed = JSON.parse(value as string);
     } catch (e) {
       return Promise.reject(new Error(i18n.t("node.invalidValue")));
     }
+    const schemaError = checkNodeArgSchema(arg, parsed)[0];
+    if (schemaError) {
+      return Promise.reject(
+        new Error(
+          i18n.t("node.schemaError", { path: schemaError.path, error: schemaError.message })
+        )
+      );
+    }
   } else if (value === null && !required) {
     value = undefined;
   }
-  if (!checkNodeArgValue(node, arg, value, true)) {
+  if (!checkNodeArgValue(node, arg, isJsonType(type) ? parsed : value, true)) {
+    const ruleError = checkNodeArgRule(arg, value);
+    if (ruleError) {
+      return Promise.reject(formatArgRuleError(ruleError));
+    }
     return Promise.reject(new Error(i18n.t("node.invalidValue")));
   }
   return Promise.resolve(value);
@@ -733,6 +855,12 @@ const NodeInspector: FC = () => {
   const editingNode = workspace.editingNode;
   const def = workspace.nodeDefs.get(editingNode.data.name);
   const disabled = editingNode.disabled;
+  const batch = editingNode.batch;
+  const deprecation = getNodeDeprecation(def);
+  const replacement =
+    deprecation?.replacement && workspace.nodeDefs.has(deprecation.replacement)
+      ? deprecation.replacement
+      : undefined;
 
   // update value
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -814,6 +942,7 @@ const NodeInspector: FC = () => {
 
     workspace.editing?.dispatch?.("updateNode", {
       data: data,
+      batch: batch,
     } as EditNode);
   };
 
@@ -848,12 +977,34 @@ const NodeInspector: FC = () => {
   return (
     <>
       <div style={{ padding: "12px 24px" }}>
-        <span style={{ fontSize: "18px", fontWeight: "600" }}>{def.desc}</span>
+        <span style={{ fontSize: "18px", fontWeight: "600" }}>
+          {batch ? t("node.batchSelected", { count: batch.length }) : def.desc}
+        </span>
       </div>
       <div
         className={mergeClassNames("b3-inspector-content", isMacos ? "" : "b3-overflow")}
         style={{ overflow: "auto", height: "100%" }}
       >
+        {deprecation && !batch && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: "12px" }}
+            message={t("node.deprecated", { name: def.name })}
+            description={deprecation.message}
+            action={
+              replacement &&
+              !disabled && (
+                <Button
+                  size="small"
+                  onClick={() => workspace.editing?.dispatch?.("replace", replacement)}
+                >
+                  {t("node.deprecated.replace", { name: replacement })}
+                </Button>
+              )
+            }
+          />
+        )}
         <Form
           form={form}
           wrapperCol={{ span: "auto" }}
@@ -924,7 +1075,7 @@ const NodeInspector: FC = () => {
             ]}
           >
             <AutoComplete
-              disabled={disabled}
+              disabled={disabled || !!batch}
               options={nodeOptions}
               onBlur={() => changeNodeDef(form.getFieldValue("name"))}
               onSelect={changeNodeDef}
@@ -939,14 +1090,14 @@ const NodeInspector: FC = () => {
             <TextArea autoSize disabled={disabled} onBlur={submit} />
           </Form.Item>
           <Form.Item label={t("node.debug")} name="debug" valuePropName="checked">
-            <Switch disabled={disabled && !editingNode.data.path} onChange={submit} />
+            <Switch disabled={disabled && !editingNode.data.path && !batch} onChange={submit} />
           </Form.Item>
           <Form.Item label={t("node.disabled")} name="disabled" valuePropName="checked">
-            <Switch disabled={disabled && !editingNode.data.path} onChange={submit} />
+            <Switch disabled={disabled && !editingNode.data.path && !batch} onChange={submit} />
           </Form.Item>
           <Form.Item label={t("node.subtree")} name="path">
             <AutoComplete
-              disabled={disabled && !editingNode.subtreeEditable}
+              disabled={!!batch || (disabled && !editingNode.subtreeEditable)}
               options={subtreeOptions}
               onBlur={changeSubtree}
               onInputKeyDown={(e) => e.code === Hotkey.Escape && e.preventDefault()}
@@ -964,7 +1115,7 @@ const NodeInspector: FC = () => {
               </Divider>
               {def.input.map((v, i) => {
                 const required = v.indexOf("?") === -1;
-                const desc = v.replace("?", "");
+                const desc = getSlotName(v).replace("?", "");
                 if (isVariadic(def.input!, i)) {
                   return (
                     <Form.Item label={desc} key={`input.${i}`}>
@@ -1002,6 +1153,19 @@ const NodeInspector: FC = () => {
                                             new Error(t("node.invalidVariableName"))
                                           );
                                         }
+                                        if (
+                                          value &&
+                                          !checkVarType(v, workspace.usingVars?.[value])
+                                        ) {
+                                          return Promise.reject(
+                                            new Error(
+                                              t("node.varTypeMismatch", {
+                                                variable: value,
+                                                type: getSlotType(v),
+                                              })
+                                            )
+                                          );
+                                        }
                                         return Promise.resolve();
                                       },
                                     },
@@ -1067,8 +1231,18 @@ const NodeInspector: FC = () => {
                             if (value && !isValidVariableName(value)) {
                               return Promise.reject(new Error(t("node.invalidVariableName")));
                             }
+                            if (value && !checkVarType(v, workspace.usingVars?.[value])) {
+                              return Promise.reject(
+                                new Error(
+                                  t("node.varTypeMismatch", {
+                                    variable: value,
+                                    type: getSlotType(v),
+                                  })
+                                )
+                              );
+                            }
                             const arg = def.args?.find(
-                              (a) => a.oneof && v.replace("?", "") === a.oneof
+                              (a) => a.oneof && getSlotName(v).replace("?", "") === a.oneof
                             );
                             if (arg) {
                               const argName = `args.${arg.name}`;
@@ -1128,11 +1302,17 @@ const NodeInspector: FC = () => {
                       rules={[
                         {
                           validator(_, value: unknown[]) {
+                            const lengthError = value?.length
+                              ? checkNodeArgLength(arg, value)
+                              : undefined;
+                            if (lengthError) {
+                              return Promise.reject(formatArgRuleError(lengthError));
+                            }
                             if (!arg.oneof) {
                               return Promise.resolve();
                             }
                             const idx = def.input?.findIndex(
-                              (input) => input.replace("?", "") === arg.oneof
+                              (input) => getSlotName(input).replace("?", "") === arg.oneof
                             );
                             if (idx === undefined || idx < 0) {
                               return Promise.reject(
@@ -1190,16 +1370,45 @@ const NodeInspector: FC = () => {
                                 ]}
                               >
                                 {!hasArgOptions(arg) && isStringType(type) && (
-                                  <TextArea autoSize disabled={disabled} onBlur={submit} />
-                                )}
-                                {!hasArgOptions(arg) && isJsonType(type) && (
-                                  <TextArea autoSize disabled={disabled} onBlur={submit} />
+                                  <TextArea
+                                    autoSize
+                                    disabled={disabled}
+                                    onBlur={submit}
+                                    placeholder={getNodeArgRule(arg).pattern}
+                                  />
                                 )}
+                                {!hasArgOptions(arg) &&
+                                  isJsonType(type) &&
+                                  !resolveNodeArgSchema(arg) && (
+                                    <TextArea autoSize disabled={disabled} onBlur={submit} />
+                                  )}
+                                {!hasArgOptions(arg) &&
+                                  isJsonType(type) &&
+                                  resolveNodeArgSchema(arg) && (
+                                    <JsonSchemaForm
+                                      schema={resolveNodeArgSchema(arg)!}
+                                      disabled={disabled}
+                                      onCommit={submit}
+                                    />
+                                  )}
                                 {!hasArgOptions(arg) && isIntType(type) && (
-                                  <InputNumber disabled={disabled} onBlur={submit} precision={0} />
+                                  <InputNumber
+                                    disabled={disabled}
+                                    onBlur={submit}
+                                    precision={0}
+                                    min={getNodeArgRule(arg).min}
+                                    max={getNodeArgRule(arg).max}
+                                    step={getNodeArgRule(arg).step}
+                                  />
                                 )}
                                 {!hasArgOptions(arg) && isFloatType(type) && (
-                                  <InputNumber disabled={disabled} onBlur={submit} />
+                                  <InputNumber
+                                    disabled={disabled}
+                                    onBlur={submit}
+                                    min={getNodeArgRule(arg).min}
+                                    max={getNodeArgRule(arg).max}
+                                    step={getNodeArgRule(arg).step}
+                                  />
                                 )}
                                 {!hasArgOptions(arg) && isBoolType(type) && (
                                   <Switch disabled={disabled} onChange={submit} />
@@ -1213,7 +1422,7 @@ const NodeInspector: FC = () => {
                                     disabled={disabled}
                                     onBlur={submit}
                                     onChange={submit}
-                                    options={(arg.options ?? []).map((option) => {
+                                    options={resolveNodeArgOptions(arg).map((option) => {
                                       return {
                                         value: option.value,
                                         label: `${option.name}(${option.value})`,
@@ -1288,7 +1497,7 @@ const NodeInspector: FC = () => {
                                 return Promise.resolve();
                               }
                               const idx = def.input?.findIndex(
-                                (input) => input.replace("?", "") === arg.oneof
+                                (input) => getSlotName(input).replace("?", "") === arg.oneof
                               );
                               if (idx === undefined || idx < 0) {
                                 return Promise.reject(
@@ -1319,16 +1528,41 @@ const NodeInspector: FC = () => {
                       ]}
                     >
                       {!hasArgOptions(arg) && isStringType(type) && (
-                        <TextArea autoSize disabled={disabled} onBlur={submit} />
+                        <TextArea
+                          autoSize
+                          disabled={disabled}
+                          onBlur={submit}
+                          placeholder={getNodeArgRule(arg).pattern}
+                        />
                       )}
-                      {!hasArgOptions(arg) && isJsonType(type) && (
+                      {!hasArgOptions(arg) && isJsonType(type) && !resolveNodeArgSchema(arg) && (
                         <TextArea autoSize disabled={disabled} onBlur={submit} />
                       )}
+                      {!hasArgOptions(arg) && isJsonType(type) && resolveNodeArgSchema(arg) && (
+                        <JsonSchemaForm
+                          schema={resolveNodeArgSchema(arg)!}
+                          disabled={disabled}
+                          onCommit={submit}
+                        />
+                      )}
                       {!hasArgOptions(arg) && isIntType(type) && (
-                        <InputNumber disabled={disabled} onBlur={submit} precision={0} />
+                        <InputNumber
+                          disabled={disabled}
+                          onBlur={submit}
+                          precision={0}
+                          min={getNodeArgRule(arg).min}
+                          max={getNodeArgRule(arg).max}
+                          step={getNodeArgRule(arg).step}
+                        />
                       )}
                       {!hasArgOptions(arg) && isFloatType(type) && (
-                        <InputNumber disabled={disabled} onBlur={submit} />
+                        <InputNumber
+                          disabled={disabled}
+                          onBlur={submit}
+                          min={getNodeArgRule(arg).min}
+                          max={getNodeArgRule(arg).max}
+                          step={getNodeArgRule(arg).step}
+                        />
                       )}
                       {!hasArgOptions(arg) && isBoolType(type) && (
                         <Switch disabled={disabled} onChange={submit} />
@@ -1342,7 +1576,7 @@ const NodeInspector: FC = () => {
                           disabled={disabled}
                           onBlur={submit}
                           onChange={submit}
-                          options={(arg.options ?? []).map((option) => {
+                          options={resolveNodeArgOptions(arg).map((option) => {
                             return {
                               value: option.value,
                               label: `${option.name}(${option.value})`,
@@ -1369,7 +1603,7 @@ const NodeInspector: FC = () => {
               </Divider>
               {def.output.map((v, i) => {
                 const required = v.indexOf("?") === -1;
-                const desc = v.replace("?", "");
+                const desc = getSlotName(v).replace("?", "");
                 if (isVariadic(def.output!, i)) {
                   return (
                     <Form.Item label={desc} key={`output.${i}`}>
@@ -1407,6 +1641,19 @@ const NodeInspector: FC = () => {
                                             new Error(t("node.invalidVariableName"))
                                           );
                                         }
+                                        if (
+                                          value &&
+                                          !checkVarType(v, workspace.usingVars?.[value])
+                                        ) {
+                                          return Promise.reject(
+                                            new Error(
+                                              t("node.varTypeMismatch", {
+                                                variable: value,
+                                                type: getSlotType(v),
+                                              })
+                                            )
+                                          );
+                                        }
                                         return Promise.resolve();
                                       },
                                     },
@@ -1472,6 +1719,16 @@ const NodeInspector: FC = () => {
                             if (value && !isValidVariableName(value)) {
                               return Promise.reject(new Error(t("node.invalidVariableName")));
                             }
+                            if (value && !checkVarType(v, workspace.usingVars?.[value])) {
+                              return Promise.reject(
+                                new Error(
+                                  t("node.varTypeMismatch", {
+                                    variable: value,
+                                    type: getSlotType(v),
+                                  })
+                                )
+                              );
+                            }
                             return Promise.resolve();
                           },
                         },
@@ -1494,7 +1751,7 @@ const NodeInspector: FC = () => {
             </>
           )}
         </Form>
-        {disabled && (
+        {disabled && !batch && (
           <Flex style={{ paddingTop: "30px" }}>
             <Button
               type="primary"
@@ -1511,16 +1768,84 @@ const NodeInspector: FC = () => {
   );
 };
 
+const nodeTypes = ["Action", "Composite", "Decorator", "Condition"];
+
+const nodeStatus = [
+  "success",
+  "failure",
+  "running",
+  "!success",
+  "!failure",
+  "|success",
+  "|failure",
+  "|running",
+  "&success",
+  "&failure",
+];
+
+const argTypes = ["boolean", "int", "float", "string", "json", "expr"].flatMap((v) => [
+  v,
+  `${v}?`,
+  `${v}[]`,
+  `${v}[]?`,
+]);
+
+/** String values are edited as they are, other values are edited as json. */
+const formatDefValue = (value: unknown) => {
+  if (value === undefined || typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+const parseDefValue = (type: string, value?: string) => {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  if (!isNodeArgArray({ type } as NodeArg) && (isStringType(type) || isExprType(type))) {
+    return value;
+  }
+  return JSON.parse(value);
+};
+
+/** Inline schemas are edited as json, otherwise it is the path of the schema file. */
+const parseDefSchema = (value?: string) => {
+  value = value?.trim();
+  if (!value) {
+    return undefined;
+  }
+  return value.startsWith("{") ? JSON.parse(value) : value;
+};
+
+const argRuleKeys = ["min", "max", "step", "pattern", "minItems", "maxItems"] as const;
+
+interface NodeArgItem extends NodeArgRule {
+  name: string;
+  type: string;
+  desc?: string;
+  default?: string;
+  oneof?: string;
+  options?: { name: string; value?: string }[];
+  schema?: string;
+  source?: Partial<NodeArgSource>;
+}
+
 const NodeDefInspector: FC = () => {
   const workspace = useWorkspace(
     useShallow((state) => ({
       editingNodeDef: state.editingNodeDef!,
+      findNodeUsages: state.findNodeUsages,
       groupDefs: state.groupDefs,
+      nodeDefs: state.nodeDefs,
+      saveNodeDef: state.saveNodeDef,
     }))
   );
   const { t } = useTranslation();
   const [form] = Form.useForm();
   const def = workspace.editingNodeDef.data;
+  const input = Form.useWatch("input", form) as string[] | undefined;
+  const doc = Form.useWatch("doc", form) as string | undefined;
+  const deprecated = Form.useWatch("deprecated", form) as boolean | undefined;
 
   // set form values
   useEffect(() => {
@@ -1528,31 +1853,155 @@ const NodeDefInspector: FC = () => {
     form.setFieldValue("name", def.name);
     form.setFieldValue("type", def.type);
     form.setFieldValue("desc", def.desc);
+    form.setFieldValue("icon", def.icon);
+    form.setFieldValue("color", def.color);
     form.setFieldValue("doc", def.doc);
+    form.setFieldValue("group", def.group ?? []);
+    form.setFieldValue("children", def.children ?? -1);
+    form.setFieldValue("status", def.status ?? []);
+    form.setFieldValue("deprecated", !!getNodeDeprecation(def));
+    form.setFieldValue("deprecatedMessage", getNodeDeprecation(def)?.message);
+    form.setFieldValue("replacement", getNodeDeprecation(def)?.replacement);
+    form.setFieldValue("input", def.input ?? []);
+    form.setFieldValue("output", def.output ?? []);
     form.setFieldValue(
-      "group",
-      def.group?.map((g) => ({ label: g, value: g }))
+      "args",
+      (def.args ?? []).map((arg) => ({
+        name: arg.name,
+        type: arg.type,
+        desc: arg.desc,
+        default: formatDefValue(arg.default),
+        oneof: arg.oneof,
+        options: arg.options?.map((v) => ({ name: v.name, value: formatDefValue(v.value) })),
+        schema: formatDefValue(getNodeArgSchema(arg)),
+        source: getNodeArgSource(arg),
+        ...Object.fromEntries(argRuleKeys.map((k) => [k, getNodeArgRule(arg)[k]])),
+      }))
     );
-    if (def.children === undefined || def.children === -1) {
-      form.setFieldValue("children", t("node.children.unlimited"));
-    } else {
-      form.setFieldValue("children", def.children);
-    }
-    def.input?.forEach((v, i) => {
-      form.setFieldValue(`input.${i}.name`, v.replaceAll("?", ""));
-    });
-    def.output?.forEach((v, i) => {
-      form.setFieldValue(`output.${i}.name`, v.replaceAll("?", ""));
-    });
-    def.args?.forEach((v, i) => {
-      form.setFieldValue(`args.${i}.type`, v.type.replaceAll("?", ""));
-    });
   }, [workspace.editingNodeDef]);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const finish = (values: any) => {
+    const slots = (value: string[]) => {
+      const arr = value.map((v) => v?.trim()).filter((v) => v);
+      return arr.length ? arr : undefined;
+    };
+    const args = (values.args as NodeArgItem[]).map((arg) => {
+      const options = (arg.options ?? []).filter((v) => v.name);
+      const rule: NodeArgRule = {};
+      argRuleKeys.forEach((k) => {
+        if (arg[k] !== undefined && arg[k] !== null && arg[k] !== "") {
+          Object.assign(rule, { [k]: arg[k] });
+        }
+      });
+      return {
+        name: arg.name.trim(),
+        type: arg.type.trim(),
+        desc: arg.desc ?? "",
+        default: parseDefValue(arg.type, arg.default),
+        oneof: arg.oneof || undefined,
+        options: options.length
+          ? options.map((v) => ({ name: v.name, value: parseDefValue(arg.type, v.value) }))
+          : undefined,
+        ...rule,
+        schema: parseDefSchema(arg.schema),
+        source: arg.source?.file?.trim()
+          ? {
+              file: arg.source.file.trim(),
+              key: arg.source.key?.trim() ?? "",
+              label: arg.source.label?.trim() || undefined,
+            }
+          : undefined,
+      };
+    });
+    const data: NodeDef & { deprecated?: NodeDeprecation } = {
+      ...def,
+      name: values.name.trim(),
+      type: values.type,
+      desc: values.desc ?? "",
+      icon: values.icon || undefined,
+      color: values.color || undefined,
+      group: values.group.length ? values.group : undefined,
+      children: def.children === undefined && values.children === -1 ? undefined : values.children,
+      status: values.status.length ? values.status : undefined,
+      input: slots(values.input),
+      output: slots(values.output),
+      args: args.length ? args : undefined,
+      doc: values.doc || undefined,
+      deprecated: values.deprecated
+        ? {
+            message: values.deprecatedMessage || undefined,
+            replacement: values.replacement || undefined,
+          }
+        : undefined,
+    };
+    workspace.saveNodeDef(def.name, data);
+  };
+
+  const validateDefValue = (type?: string, value?: string) => {
+    try {
+      parseDefValue(type ?? "", value);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(new Error(t("nodeDef.invalidJson")));
+    }
+  };
+
+  const renderSlots = (name: string, label: string) => (
+    <>
+      <Divider orientation="left">
+        <h4>{label}</h4>
+      </Divider>
+      <Form.List name={name}>
+        {(fields, { add, remove }) => (
+          <>
+            {fields.map((item) => (
+              <Flex key={item.key} gap={4}>
+                <Form.Item
+                  label={`[${item.name}]`}
+                  name={item.name}
+                  style={{ flex: 1, marginBottom: 4 }}
+                >
+                  <Input placeholder={t("nodeDef.slot")} onBlur={form.submit} />
+                </Form.Item>
+                <MinusCircleOutlined
+                  style={{ marginBottom: "4px" }}
+                  onClick={() => {
+                    remove(item.name);
+                    form.submit();
+                  }}
+                />
+              </Flex>
+            ))}
+            <Form.Item style={{ marginTop: 4 }}>
+              <Button
+                type="dashed"
+                onClick={() => add("")}
+                style={{ width: "100%" }}
+                icon={<PlusOutlined />}
+              >
+                {t("add")}
+              </Button>
+            </Form.Item>
+          </>
+        )}
+      </Form.List>
+    </>
+  );
+
   return (
     <>
-      <div style={{ padding: "12px 24px" }}>
+      <Flex style={{ padding: "12px 24px" }} justify="space-between" align="center">
         <span style={{ fontSize: "18px", fontWeight: "600" }}>{t("nodeDefinition")}</span>
-      </div>
+        <Button
+          type="text"
+          size="small"
+          icon={<VscReferences />}
+          onClick={() => workspace.findNodeUsages(def.name)}
+        >
+          {t("usages.find")}
+        </Button>
+      </Flex>
       <div
         className={mergeClassNames("b3-inspector-content", isMacos ? "" : "b3-overflow")}
         style={{ overflow: "auto", height: "100%" }}
@@ -1561,99 +2010,350 @@ const NodeDefInspector: FC = () => {
           form={form}
           wrapperCol={{ span: "auto" }}
           labelCol={{ span: "auto" }}
-          // onFinish={finish}
+          onFinish={finish}
         >
-          <Form.Item name="name" label={t("node.name")}>
-            <Input disabled={true} />
+          <Form.Item
+            name="name"
+            label={t("node.name")}
+            rules={[
+              {
+                validator(_, value: string) {
+                  if (!value?.trim()) {
+                    return Promise.reject(new Error(t("fieldRequired", { field: t("node.name") })));
+                  }
+                  if (value.trim() !== def.name && workspace.nodeDefs.has(value.trim())) {
+                    return Promise.reject(new Error(t("nodeDef.exists", { name: value })));
+                  }
+                  return Promise.resolve();
+                },
+              },
+            ]}
+          >
+            <Input onBlur={form.submit} />
           </Form.Item>
           <Form.Item name="type" label={t("node.type")}>
-            <Input disabled={true} />
+            <Select
+              onChange={form.submit}
+              options={nodeTypes.map((v) => ({ label: v, value: v }))}
+            />
+          </Form.Item>
+          <Form.Item name="group" label={t("node.group")}>
+            <Select
+              style={{ fontSize: "13px" }}
+              mode="tags"
+              suffixIcon={null}
+              onChange={form.submit}
+              options={workspace.groupDefs.map((g) => ({ label: g, value: g }))}
+            />
           </Form.Item>
-          {workspace.groupDefs.length > 0 && def.group?.length && (
-            <Form.Item name="group" label={t("node.group")}>
-              <Select
-                style={{ fontSize: "13px" }}
-                mode="multiple"
-                suffixIcon={null}
-                disabled={true}
-              />
-            </Form.Item>
-          )}
           <Form.Item name="children" label={t("node.children")}>
-            <Input disabled={true} />
+            <Select
+              onChange={form.submit}
+              options={[
+                { label: t("node.children.unlimited"), value: -1 },
+                { label: 0, value: 0 },
+                { label: 1, value: 1 },
+                { label: 3, value: 3 },
+              ]}
+            />
           </Form.Item>
-          <Form.Item name="desc" label={t("node.desc")}>
-            <TextArea autoSize disabled={true} />
+          <Form.Item name="status" label={t("nodeDef.status")}>
+            <Select
+              style={{ fontSize: "13px" }}
+              mode="multiple"
+              suffixIcon={null}
+              onChange={form.submit}
+              options={nodeStatus.map((v) => ({ label: v, value: v }))}
+            />
           </Form.Item>
-          <Markdown className="b3-markdown">{def.doc}</Markdown>
-          {def.input && def.input.length > 0 && (
+          <Form.Item name="deprecated" label={t("nodeDef.deprecated")} valuePropName="checked">
+            <Switch onChange={() => form.submit()} />
+          </Form.Item>
+          {deprecated && (
             <>
-              <Divider orientation="left">
-                <h4>{t("node.inputVariable")}</h4>
-              </Divider>
-              {def.input.map((v, i) => {
-                const required = v.indexOf("?") === -1;
-                return (
-                  <Form.Item
-                    label={`[${i}]`}
-                    name={`input.${i}.name`}
-                    key={`input.${i}.name`}
-                    required={required}
-                  >
-                    <Input disabled={true} />
-                  </Form.Item>
-                );
-              })}
+              <Form.Item name="deprecatedMessage" label={t("nodeDef.deprecated.message")}>
+                <Input onBlur={form.submit} />
+              </Form.Item>
+              <Form.Item name="replacement" label={t("nodeDef.deprecated.replacement")}>
+                <Select
+                  showSearch
+                  allowClear
+                  onChange={form.submit}
+                  options={Array.from(workspace.nodeDefs.keys())
+                    .filter((v) => v !== def.name)
+                    .sort((a, b) => a.localeCompare(b))
+                    .map((v) => ({ label: v, value: v }))}
+                />
+              </Form.Item>
             </>
           )}
-          {def.args && def.args.length > 0 && (
-            <>
-              <Divider orientation="left">
-                <h4>{t("node.args")}</h4>
-              </Divider>
-              {def.args.map((v, i) => {
-                const required = v.type.indexOf("?") === -1;
-                return (
-                  <Form.Item
-                    name={`args.${i}.type`}
-                    label={v.desc}
-                    key={`args.${i}.type`}
-                    rules={[{ required }]}
+          <Form.Item name="icon" label={t("nodeDef.icon")}>
+            <Input onBlur={form.submit} />
+          </Form.Item>
+          <Form.Item name="color" label={t("nodeDef.color")}>
+            <Input placeholder="#rrggbb" onBlur={form.submit} />
+          </Form.Item>
+          <Form.Item name="desc" label={t("node.desc")}>
+            <TextArea autoSize onBlur={form.submit} />
+          </Form.Item>
+          <Form.Item name="doc" label={t("nodeDef.doc")}>
+            <TextArea autoSize={{ minRows: 2 }} onBlur={form.submit} />
+          </Form.Item>
+          <Markdown className="b3-markdown">{doc}</Markdown>
+          {renderSlots("input", t("node.inputVariable"))}
+          <Divider orientation="left">
+            <h4>{t("node.args")}</h4>
+          </Divider>
+          <Form.List name="args">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map((item) => (
+                  <div
+                    key={item.key}
+                    style={{
+                      padding: "8px 8px 4px",
+                      marginBottom: 8,
+                      borderRadius: "4px",
+                      border: "1px solid #3d506c",
+                    }}
                   >
-                    <Select disabled={true}>
-                      {["float", "int", "string", "code", "boolean"].map((value) => {
-                        return (
-                          <Select.Option key={value} value={value}>
-                            {value}
-                          </Select.Option>
-                        );
-                      })}
-                    </Select>
-                  </Form.Item>
-                );
-              })}
-            </>
-          )}
-          {def.output && def.output.length > 0 && (
-            <>
-              <Divider orientation="left">
-                <h4>{t("node.outputVariable")}</h4>
-              </Divider>
-              {def.output.map((v, i) => {
-                const required = v.indexOf("?") === -1;
-                return (
-                  <Form.Item
-                    label={`[${i}]`}
-                    name={`output.${i}.name`}
-                    key={`output.${i}.name`}
-                    required={required}
+                    <Flex gap={4}>
+                      <Form.Item
+                        name={[item.name, "name"]}
+                        style={{ flex: 1, marginBottom: 4 }}
+                        rules={[
+                          {
+                            required: true,
+                            message: t("fieldRequired", { field: t("nodeDef.args.name") }),
+                          },
+                        ]}
+                      >
+                        <Input placeholder={t("nodeDef.args.name")} onBlur={form.submit} />
+                      </Form.Item>
+                      <Form.Item
+                        name={[item.name, "type"]}
+                        style={{ width: "110px", marginBottom: 4 }}
+                        rules={[
+                          {
+                            required: true,
+                            message: t("fieldRequired", { field: t("nodeDef.args.type") }),
+                          },
+                        ]}
+                      >
+                        <AutoComplete
+                          placeholder={t("nodeDef.args.type")}
+                          options={argTypes.map((v) => ({ label: v, value: v }))}
+                          onBlur={form.submit}
+                          onInputKeyDown={(e) => e.code === Hotkey.Escape && e.preventDefault()}
+                        />
+                      </Form.Item>
+                      <MinusCircleOutlined
+                        style={{ marginBottom: "4px" }}
+                        onClick={() => {
+                          remove(item.name);
+                          form.submit();
+                        }}
+                      />
+                    </Flex>
+                    <Form.Item name={[item.name, "desc"]} style={{ marginBottom: 4 }}>
+                      <Input placeholder={t("nodeDef.args.desc")} onBlur={form.submit} />
+                    </Form.Item>
+                    <Form.Item
+                      name={[item.name, "default"]}
+                      style={{ marginBottom: 4 }}
+                      dependencies={[["args", item.name, "type"]]}
+                      rules={[
+                        {
+                          validator: (_, value) =>
+                            validateDefValue(
+                              form.getFieldValue(["args", item.name, "type"]),
+                              value
+                            ),
+                        },
+                      ]}
+                    >
+                      <Input placeholder={t("nodeDef.args.default")} onBlur={form.submit} />
+                    </Form.Item>
+                    <Form.Item name={[item.name, "oneof"]} style={{ marginBottom: 4 }}>
+                      <Select
+                        allowClear
+                        placeholder={t("nodeDef.args.oneof")}
+                        onChange={form.submit}
+                        options={(input ?? [])
+                          .filter((v) => v)
+                          .map((v) => getSlotName(v).replace("?", ""))
+                          .map((v) => ({ label: v, value: v }))}
+                      />
+                    </Form.Item>
+                    <Flex gap={4}>
+                      {(["min", "max", "step"] as const).map((k) => (
+                        <Form.Item key={k} name={[item.name, k]} style={{ marginBottom: 4 }}>
+                          <InputNumber
+                            placeholder={t(`nodeDef.args.${k}`)}
+                            onBlur={form.submit}
+                            style={{ width: "100%" }}
+                          />
+                        </Form.Item>
+                      ))}
+                    </Flex>
+                    <Form.Item
+                      name={[item.name, "pattern"]}
+                      style={{ marginBottom: 4 }}
+                      rules={[
+                        {
+                          validator(_, value?: string) {
+                            try {
+                              new RegExp(value ?? "");
+                              return Promise.resolve();
+                            } catch (e) {
+                              return Promise.reject(new Error(t("nodeDef.args.invalidPattern")));
+                            }
+                          },
+                        },
+                      ]}
+                    >
+                      <Input placeholder={t("nodeDef.args.pattern")} onBlur={form.submit} />
+                    </Form.Item>
+                    <Flex gap={4}>
+                      {(["minItems", "maxItems"] as const).map((k) => (
+                        <Form.Item key={k} name={[item.name, k]} style={{ marginBottom: 4 }}>
+                          <InputNumber
+                            min={0}
+                            precision={0}
+                            placeholder={t(`nodeDef.args.${k}`)}
+                            onBlur={form.submit}
+                            style={{ width: "100%" }}
+                          />
+                        </Form.Item>
+                      ))}
+                    </Flex>
+                    <Flex gap={4}>
+                      <Form.Item
+                        name={[item.name, "source", "file"]}
+                        style={{ flex: 2, marginBottom: 4 }}
+                      >
+                        <Input placeholder={t("nodeDef.args.source")} onBlur={form.submit} />
+                      </Form.Item>
+                      <Form.Item
+                        name={[item.name, "source", "key"]}
+                        style={{ flex: 1, marginBottom: 4 }}
+                        dependencies={[["args", item.name, "source", "file"]]}
+                        rules={[
+                          {
+                            validator: (_, value?: string) =>
+                              form.getFieldValue(["args", item.name, "source", "file"]) &&
+                              !value?.trim()
+                                ? Promise.reject(
+                                    new Error(
+                                      t("fieldRequired", { field: t("nodeDef.args.sourceKey") })
+                                    )
+                                  )
+                                : Promise.resolve(),
+                          },
+                        ]}
+                      >
+                        <Input placeholder={t("nodeDef.args.sourceKey")} onBlur={form.submit} />
+                      </Form.Item>
+                      <Form.Item
+                        name={[item.name, "source", "label"]}
+                        style={{ flex: 1, marginBottom: 4 }}
+                      >
+                        <Input placeholder={t("nodeDef.args.sourceLabel")} onBlur={form.submit} />
+                      </Form.Item>
+                    </Flex>
+                    <Form.Item
+                      name={[item.name, "schema"]}
+                      style={{ marginBottom: 4 }}
+                      rules={[
+                        {
+                          validator(_, value?: string) {
+                            try {
+                              parseDefSchema(value);
+                              return Promise.resolve();
+                            } catch (e) {
+                              return Promise.reject(new Error(t("nodeDef.invalidJson")));
+                            }
+                          },
+                        },
+                      ]}
+                    >
+                      <TextArea
+                        autoSize
+                        placeholder={t("nodeDef.args.schema")}
+                        onBlur={form.submit}
+                      />
+                    </Form.Item>
+                    <Form.List name={[item.name, "options"]}>
+                      {(options, { add: addOption, remove: removeOption }) => (
+                        <>
+                          {options.map((option) => (
+                            <Flex key={option.key} gap={4}>
+                              <Form.Item
+                                name={[option.name, "name"]}
+                                style={{ flex: 1, marginBottom: 4 }}
+                              >
+                                <Input
+                                  placeholder={t("nodeDef.option.name")}
+                                  onBlur={form.submit}
+                                />
+                              </Form.Item>
+                              <Form.Item
+                                name={[option.name, "value"]}
+                                style={{ flex: 1, marginBottom: 4 }}
+                                rules={[
+                                  {
+                                    validator: (_, value) =>
+                                      validateDefValue(
+                                        form.getFieldValue(["args", item.name, "type"]),
+                                        value
+                                      ),
+                                  },
+                                ]}
+                              >
+                                <Input
+                                  placeholder={t("nodeDef.option.value")}
+                                  onBlur={form.submit}
+                                />
+                              </Form.Item>
+                              <MinusCircleOutlined
+                                style={{ marginBottom: "4px" }}
+                                onClick={() => {
+                                  removeOption(option.name);
+                                  form.submit();
+                                }}
+                              />
+                            </Flex>
+                          ))}
+                          <Form.Item style={{ marginBottom: 4 }}>
+                            <Button
+                              type="dashed"
+                              size="small"
+                              onClick={() => addOption({ name: "" })}
+                              style={{ width: "100%" }}
+                              icon={<PlusOutlined />}
+                            >
+                              {t("nodeDef.args.options")}
+                            </Button>
+                          </Form.Item>
+                        </>
+                      )}
+                    </Form.List>
+                  </div>
+                ))}
+                <Form.Item style={{ marginTop: 4 }}>
+                  <Button
+                    type="dashed"
+                    onClick={() => add({ name: "", type: "string" })}
+                    style={{ width: "100%" }}
+                    icon={<PlusOutlined />}
                   >
-                    <Input disabled={true} />
-                  </Form.Item>
-                );
-              })}
-            </>
-          )}
+                    {t("add")}
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+          {renderSlots("output", t("node.outputVariable"))}
         </Form>
       </div>
     </>
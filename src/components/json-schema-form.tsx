@@ -0,0 +1,226 @@
+import { MinusCircleOutlined, PlusOutlined } from "@ant-design/icons";
+import { Button, Flex, Input, InputNumber, Select, Switch } from "antd";
+import TextArea from "antd/es/input/TextArea";
+import { FC, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { createJsonSchemaValue, getJsonSchemaType, JsonSchema } from "../misc/json-schema";
+
+interface FieldProps {
+  schema: JsonSchema;
+  value: unknown;
+  nested?: boolean;
+  disabled?: boolean;
+  onChange: (value: unknown) => void;
+  onCommit: () => void;
+}
+
+/** Edits the value as raw json, used when the schema does not tell the type. */
+const RawField: FC<FieldProps> = ({ value, disabled, onChange, onCommit }) => {
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    setText(value === undefined ? "" : JSON.stringify(value));
+  }, [value]);
+
+  const commit = () => {
+    try {
+      onChange(text ? JSON.parse(text) : undefined);
+      onCommit();
+    } catch {
+      setText(value === undefined ? "" : JSON.stringify(value));
+    }
+  };
+
+  return (
+    <TextArea
+      autoSize
+      value={text}
+      disabled={disabled}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+    />
+  );
+};
+
+const Field: FC<FieldProps> = (props) => {
+  const { schema, value, nested, disabled, onChange, onCommit } = props;
+  const { t } = useTranslation();
+
+  if (schema.enum) {
+    return (
+      <Select
+        allowClear
+        disabled={disabled}
+        value={value === undefined ? undefined : JSON.stringify(value)}
+        options={schema.enum.map((v) => ({
+          label: typeof v === "string" ? v : JSON.stringify(v),
+          value: JSON.stringify(v),
+        }))}
+        onChange={(v?: string) => {
+          onChange(v === undefined ? undefined : JSON.parse(v));
+          onCommit();
+        }}
+      />
+    );
+  }
+
+  switch (getJsonSchemaType(schema)) {
+    case "string":
+      return (
+        <Input
+          value={value as string | undefined}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onCommit}
+        />
+      );
+    case "number":
+    case "integer":
+      return (
+        <InputNumber
+          value={value as number | undefined}
+          disabled={disabled}
+          min={schema.minimum}
+          max={schema.maximum}
+          precision={getJsonSchemaType(schema) === "integer" ? 0 : undefined}
+          style={{ width: "100%" }}
+          onChange={(v) => onChange(v ?? undefined)}
+          onBlur={onCommit}
+        />
+      );
+    case "boolean":
+      return (
+        <Switch
+          checked={!!value}
+          disabled={disabled}
+          onChange={(v) => {
+            onChange(v);
+            onCommit();
+          }}
+        />
+      );
+    case "object": {
+      const obj = (value ?? {}) as Record<string, unknown>;
+      return (
+        <Flex
+          vertical
+          gap={4}
+          style={nested ? { paddingLeft: 8, borderLeft: "1px solid #424242" } : undefined}
+        >
+          {Object.entries(schema.properties ?? {}).map(([key, property]) => (
+            <div key={key}>
+              <div title={property.description} style={{ color: "gray", fontSize: "12px" }}>
+                {schema.required?.includes(key) && <span style={{ color: "#f14c4c" }}>* </span>}
+                {property.title ?? key}
+              </div>
+              <Field
+                nested
+                schema={property}
+                value={obj[key]}
+                disabled={disabled}
+                onCommit={onCommit}
+                onChange={(v) => {
+                  const next = { ...obj };
+                  if (v === undefined) {
+                    delete next[key];
+                  } else {
+                    next[key] = v;
+                  }
+                  onChange(next);
+                }}
+              />
+            </div>
+          ))}
+        </Flex>
+      );
+    }
+    case "array": {
+      const arr = Array.isArray(value) ? value : [];
+      return (
+        <Flex
+          vertical
+          gap={4}
+          style={nested ? { paddingLeft: 8, borderLeft: "1px solid #424242" } : undefined}
+        >
+          {arr.map((item, i) => (
+            <Flex key={i} gap={4} align="center">
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <Field
+                  nested
+                  schema={schema.items ?? {}}
+                  value={item}
+                  disabled={disabled}
+                  onCommit={onCommit}
+                  onChange={(v) => {
+                    const next = arr.slice();
+                    next[i] = v;
+                    onChange(next);
+                  }}
+                />
+              </div>
+              {!disabled && (
+                <MinusCircleOutlined
+                  onClick={() => {
+                    onChange(arr.filter((_, j) => j !== i));
+                    onCommit();
+                  }}
+                />
+              )}
+            </Flex>
+          ))}
+          <Button
+            type="dashed"
+            size="small"
+            disabled={disabled}
+            icon={<PlusOutlined />}
+            onClick={() => {
+              onChange([...arr, createJsonSchemaValue(schema.items ?? {})]);
+              onCommit();
+            }}
+          >
+            {t("add")}
+          </Button>
+        </Flex>
+      );
+    }
+    default:
+      return <RawField {...props} />;
+  }
+};
+
+interface JsonSchemaFormProps {
+  schema: JsonSchema;
+  /** json string, as the value of the json arg field */
+  value?: string;
+  disabled?: boolean;
+  onChange?: (value: string) => void;
+  onCommit: () => void;
+}
+
+/** Generated form of a json arg, falls back to raw text when the value is not valid json. */
+export const JsonSchemaForm: FC<JsonSchemaFormProps> = (props) => {
+  const { schema, value, disabled, onChange, onCommit } = props;
+  let data: unknown;
+  try {
+    data = value ? JSON.parse(value) : undefined;
+  } catch {
+    return (
+      <TextArea
+        autoSize
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange?.(e.target.value)}
+        onBlur={onCommit}
+      />
+    );
+  }
+  return (
+    <Field
+      schema={schema}
+      value={data}
+      disabled={disabled}
+      onCommit={onCommit}
+      onChange={(v) => onChange?.(v === undefined ? "" : JSON.stringify(v, null, 2))}
+    />
+  );
+};
@@ -11,9 +11,12 @@ import { PiTreeStructureFill } from "react-icons/pi";
 import { useShallow } from "zustand/react/shallow";
 import { useSetting } from "../contexts/setting-context";
 import { useWorkspace } from "../contexts/workspace-context";
+import { layoutDirections } from "../misc/b3type";
 import * as b3util from "../misc/b3util";
+import { ImageFormat, ImageTheme } from "../misc/export-image";
 import i18n from "../misc/i18n";
 import { Hotkey, isMacos } from "../misc/keys";
+import { exportTreeImages } from "./graph";
 
 const MenuItemLabel: FC<FlexProps> = (itemProps) => {
   return (
@@ -33,6 +36,24 @@ ipcRenderer.on("open-project", (_, dir) => {
   useWorkspace.getState().init(dir);
 });
 
+ipcRenderer.on(
+  "export-project",
+  async (_, project: string, dir: string, format: ImageFormat, theme: ImageTheme) => {
+    let failed = 0;
+    let error: string | undefined;
+    try {
+      useWorkspace.getState().loadProject(project);
+      failed = await exportTreeImages(dir, format, theme, (path, e) => {
+        ipcRenderer.invoke("export-progress", path, e);
+      });
+    } catch (e) {
+      console.error(e);
+      error = String(e);
+    }
+    ipcRenderer.invoke("export-completed", failed, error);
+  }
+);
+
 ipcRenderer.on("refresh-app-men", () => {
   // trigger refresh
   useSetting.getState().load();
@@ -44,6 +65,7 @@ export const Menu: FC<LayoutProps> = () => {
   const workspace = useWorkspace(
     useShallow((state) => ({
       batchProject: state.batchProject,
+      migrateWorkspace: state.migrateWorkspace,
       buildProject: state.buildProject,
       createProject: state.createProject,
       editing: state.editing,
@@ -57,14 +79,20 @@ export const Menu: FC<LayoutProps> = () => {
       settings: state.settings,
       setCheckExpr: state.setCheckExpr,
       setupBuildScript: state.setupBuildScript,
+      addNodeConfig: state.addNodeConfig,
+      dockPanel: state.dockPanel,
+      showDockPanel: state.showDockPanel,
     }))
   );
   const enabled = !!workspace.workdir;
   const homedir = app.getPath("home");
-  const { settings, setLayout } = useSetting(
+  const { settings, setLayout, setTreeLayout, setMinimap, setExportTheme } = useSetting(
     useShallow((state) => ({
       settings: state.data,
       setLayout: state.setLayout,
+      setTreeLayout: state.setTreeLayout,
+      setMinimap: state.setMinimap,
+      setExportTheme: state.setExportTheme,
     }))
   );
 
@@ -158,6 +186,12 @@ export const Menu: FC<LayoutProps> = () => {
             enabled: enabled,
             click: () => workspace.saveAll(),
           },
+          {
+            id: "menu.file.exportImage",
+            label: t("exportImage"),
+            enabled: !!workspace.editing,
+            click: () => workspace.editing?.dispatch?.("exportImage"),
+          },
           { type: "separator" },
           {
             id: "menu.file.build",
@@ -176,12 +210,26 @@ export const Menu: FC<LayoutProps> = () => {
               workspace.setupBuildScript();
             },
           },
+          {
+            id: "menu.file.nodeConfig",
+            label: t("addNodeConfig"),
+            enabled: enabled,
+            click: () => {
+              workspace.addNodeConfig();
+            },
+          },
           {
             id: "menu.file.batch",
             label: t("batch"),
             enabled: enabled,
             click: () => workspace.batchProject(),
           },
+          {
+            id: "menu.file.migrate",
+            label: t("migrate"),
+            enabled: enabled,
+            click: () => workspace.migrateWorkspace(),
+          },
         ],
       },
       {
@@ -309,6 +357,109 @@ export const Menu: FC<LayoutProps> = () => {
               getFocusedWebContents()?.openDevTools();
             },
           },
+          {
+            id: "menu.view.problems",
+            label: t("problems"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "problems",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "problems" ? null : "problems");
+            },
+          },
+          {
+            id: "menu.view.remote",
+            label: t("remote"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "remote",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "remote" ? null : "remote");
+            },
+          },
+          {
+            id: "menu.view.blackboard",
+            label: t("blackboard"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "blackboard",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "blackboard" ? null : "blackboard");
+            },
+          },
+          {
+            id: "menu.view.usages",
+            label: t("usages"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "usages",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "usages" ? null : "usages");
+            },
+          },
+          {
+            id: "menu.view.search",
+            label: t("search"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "search",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "search" ? null : "search");
+            },
+          },
+          {
+            id: "menu.view.migration",
+            label: t("migration"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "migration",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "migration" ? null : "migration");
+            },
+          },
+          {
+            id: "menu.view.docs",
+            label: t("docs"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "docs",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "docs" ? null : "docs");
+            },
+          },
+          {
+            id: "menu.view.comments",
+            label: t("comments"),
+            type: "checkbox",
+            checked: workspace.dockPanel === "comments",
+            click: () => {
+              workspace.showDockPanel(workspace.dockPanel === "comments" ? null : "comments");
+            },
+          },
+          { type: "separator" },
+          {
+            id: "menu.view.fitView",
+            label: t("fitView"),
+            enabled: !!workspace.editing,
+            accelerator: Hotkey.FitView.replaceAll(".", "+"),
+            click: () => workspace.editing?.dispatch?.("fitView"),
+          },
+          {
+            id: "menu.view.fitSelection",
+            label: t("fitSelection"),
+            enabled: !!workspace.editing,
+            accelerator: Hotkey.FitSelection.replaceAll(".", "+"),
+            click: () => workspace.editing?.dispatch?.("fitSelection"),
+          },
+          {
+            id: "menu.view.centerSelection",
+            label: t("centerSelection"),
+            enabled: !!workspace.editing,
+            accelerator: Hotkey.CenterSelection.replaceAll(".", "+"),
+            click: () => workspace.editing?.dispatch?.("centerSelection"),
+          },
+          {
+            id: "menu.view.minimap",
+            label: t("minimap"),
+            type: "checkbox",
+            checked: settings.minimap,
+            click: () => {
+              setMinimap(!settings.minimap);
+            },
+          },
           { type: "separator" },
           {
             id: "menu.view.actualSize",
@@ -400,6 +551,43 @@ export const Menu: FC<LayoutProps> = () => {
               },
             ],
           },
+          {
+            id: "menu.view.treeLayout",
+            label: t("treeLayout"),
+            submenu: layoutDirections.map((direction) => ({
+              id: `menu.view.treeLayout.${direction}`,
+              label: t(`treeLayout.${direction}`),
+              type: "radio",
+              checked: settings.treeLayout.direction === direction,
+              click: () => {
+                setTreeLayout({ direction });
+              },
+            })),
+          },
+          {
+            id: "menu.view.exportTheme",
+            label: t("exportTheme"),
+            submenu: [
+              {
+                id: "menu.view.exportTheme.dark",
+                label: t("exportTheme.dark"),
+                type: "radio",
+                checked: settings.exportTheme === "dark",
+                click: () => {
+                  setExportTheme("dark");
+                },
+              },
+              {
+                id: "menu.view.exportTheme.light",
+                label: t("exportTheme.light"),
+                type: "radio",
+                checked: settings.exportTheme === "light",
+                click: () => {
+                  setExportTheme("light");
+                },
+              },
+            ],
+          },
         ],
       },
       {
@@ -416,7 +604,15 @@ export const Menu: FC<LayoutProps> = () => {
         ],
       },
     ] as MenuItemConstructorOptions[];
-  }, [t, workspace.workdir, settings.recent, workspace.editing, workspace.settings, settings]);
+  }, [
+    t,
+    workspace.workdir,
+    settings.recent,
+    workspace.editing,
+    workspace.settings,
+    workspace.dockPanel,
+    settings,
+  ]);
 
   if (isMacos) {
     const menu = AppMenu.buildFromTemplate(menuTemplate);
@@ -0,0 +1,62 @@
+import { Flex } from "antd";
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { VscSymbolClass } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+export const Migration: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      migrationReports: state.migrationReports,
+      open: state.open,
+      relative: state.relative,
+    }))
+  );
+  const { t } = useTranslation();
+
+  const reports = workspace.migrationReports;
+  if (!reports?.length) {
+    return <div className="b3-dock-empty">{t("migration.empty")}</div>;
+  }
+
+  const count = reports.reduce((n, v) => n + v.changes.length, 0);
+
+  return (
+    <div
+      className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+      style={{ overflow: "auto", height: "100%" }}
+    >
+      <div className="b3-dock-item" style={{ color: "gray", cursor: "default" }}>
+        {t("migration.summary", { count, files: reports.length })}
+      </div>
+      {reports.map((report) => (
+        <div key={report.path}>
+          <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+            <span>{workspace.relative(report.path)}</span>
+            <span className="b3-dock-count">{report.changes.length}</span>
+          </Flex>
+          {report.changes.map((change, i) => (
+            <Flex
+              key={i}
+              className="b3-dock-item"
+              gap="6px"
+              align="center"
+              style={{ paddingLeft: "44px" }}
+              onClick={() => workspace.open(report.path, change.id)}
+            >
+              <VscSymbolClass style={{ flexShrink: 0 }} />
+              <span>
+                {report.prefix}
+                {change.id} {change.name}
+              </span>
+              <span style={{ color: "gray" }}>{change.message}</span>
+            </Flex>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
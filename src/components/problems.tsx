@@ -0,0 +1,68 @@
+import { Flex } from "antd";
+import { FC, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { VscError, VscWarning } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+export const Problems: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      problems: state.problems,
+      open: state.open,
+      relative: state.relative,
+    }))
+  );
+  const { t } = useTranslation();
+
+  const files = useMemo(() => {
+    return Array.from(workspace.problems.values())
+      .filter((v) => v.problems.length > 0)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }, [workspace.problems]);
+
+  if (files.length === 0) {
+    return <div className="b3-dock-empty">{t("problems.empty")}</div>;
+  }
+
+  return (
+    <div
+      className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+      style={{ overflow: "auto", height: "100%" }}
+    >
+      {files.map((file) => (
+        <div key={file.path}>
+          <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+            <span>{workspace.relative(file.path)}</span>
+            <span className="b3-dock-count">{file.problems.length}</span>
+          </Flex>
+          {file.problems.map((problem, i) => (
+            <Flex
+              key={i}
+              className="b3-dock-item"
+              gap="6px"
+              align="center"
+              style={{ paddingLeft: "44px" }}
+              onClick={() => workspace.open(file.path, problem.id || undefined)}
+            >
+              {problem.warning ? (
+                <VscWarning style={{ color: "#fadb14", flexShrink: 0 }} />
+              ) : (
+                <VscError style={{ color: "#f14c4c", flexShrink: 0 }} />
+              )}
+              <span>{problem.msg}</span>
+              {problem.id && (
+                <span style={{ color: "gray" }}>
+                  {file.prefix}
+                  {problem.id} {problem.name}
+                </span>
+              )}
+            </Flex>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -11,12 +11,22 @@ import {
   UpsertHooks,
 } from "@antv/g6";
 import { NodeStyle } from "@antv/g6/lib/spec/element/node";
+import dayjs from "dayjs";
 import assert from "node:assert";
 import { Constructor, ExpressionEvaluator, NodeDef } from "../behavior3/src/behavior3";
 import { useSetting } from "../contexts/setting-context";
 import { useWorkspace } from "../contexts/workspace-context";
-import { getNodeType, isExprType, NodeData, NodeLayout } from "../misc/b3type";
+import {
+  CanvasComment,
+  getNodeDeprecation,
+  getNodeType,
+  isExprType,
+  LayoutDirection,
+  NodeData,
+  NodeLayout,
+} from "../misc/b3type";
 import * as b3util from "../misc/b3util";
+import type { ImageTheme } from "../misc/export-image";
 import i18n from "../misc/i18n";
 import { isMacos } from "../misc/keys";
 
@@ -203,28 +213,102 @@ const NODE_COLORS = {
   ["Error"]: "#ff0000",
 };
 
+/** Colors depending on the background, the light palette is used for the exported images only. */
+const NODE_PALETTES: Record<
+  ImageTheme,
+  { fill: string; id: string; idStroke: string; subtree: string }
+> = {
+  dark: { fill: "white", id: "white", idStroke: "black", subtree: "#a5b1be" },
+  light: { fill: "#f6f8fa", id: "#24292f", idStroke: "white", subtree: "#6e7781" },
+};
+
+/** Emitted on the graph with the node as the target when the collapse badge is clicked. */
+export const COLLAPSE_EVENT = "b3:collapse";
+
+/** Emitted on the graph with the node as the target when the comment callout is clicked. */
+export const COMMENT_EVENT = "b3:comment";
+
+const COMMENT_COLOR = "#fff1b8";
+const COMMENT_BORDER = "#d4b106";
+const CANVAS_COMMENT_WIDTH = 180;
+
+/** Draws a comment floating on the canvas as a sticky note at its position. */
+export const createCanvasComment = (comment: CanvasComment) => {
+  const { str, line } = toBreakWord(comment.text, CANVAS_COMMENT_WIDTH - 16, "12px");
+  const header = `${comment.author} · ${dayjs(comment.time).format("YYYY-MM-DD HH:mm")}`;
+  const group = new Group({ style: { cursor: "move", draggable: true } });
+  group.appendChild(
+    new GRect({
+      style: {
+        width: CANVAS_COMMENT_WIDTH,
+        height: 30 + line * 16,
+        fill: COMMENT_COLOR,
+        stroke: COMMENT_BORDER,
+        lineWidth: 1,
+        radius: 2,
+      },
+    })
+  );
+  group.appendChild(
+    new GText({
+      style: {
+        fill: "#876800",
+        fontSize: 10,
+        text: cutWordTo(header, CANVAS_COMMENT_WIDTH - 16, "10px"),
+        textBaseline: "top",
+        x: 8,
+        y: 6,
+      },
+    })
+  );
+  group.appendChild(
+    new GText({
+      style: {
+        fill: "black",
+        fontSize: 12,
+        lineHeight: 16,
+        text: str,
+        textBaseline: "top",
+        x: 8,
+        y: 22,
+      },
+    })
+  );
+  group.setPosition(comment.x, comment.y);
+  return group;
+};
+
+/** Direction of the children of a node, a mindmap has nodes of both horizontal directions. */
+export type NodeDirection = Exclude<LayoutDirection, "mindmap">;
+
 export type TreeNodeState =
-  | "dragdown"
-  | "dragright"
+  | "dragafter"
+  | "dragbefore"
+  | "dragchild"
   | "dragsrc"
-  | "dragup"
   | "highlightargs"
   | "highlightgray"
   | "highlightinput"
   | "highlightoutput"
+  | "runfailure"
+  | "runrunning"
+  | "runsuccess"
   | "selected";
 
 type ShapeName =
   | "args-bg"
   | "args-text"
   | "collapse"
+  | "comment"
+  | "comment-pointer"
   | "debug"
+  | "deprecated"
   | "desc-text"
   | "disabled"
-  | "drag-down"
-  | "drag-right"
+  | "drag-after"
+  | "drag-before"
+  | "drag-child"
   | "drag-src"
-  | "drag-up"
   | "icon"
   | "id-text"
   | "input-bg"
@@ -236,6 +320,7 @@ type ShapeName =
   | "output-bg"
   | "output-text"
   | "path-text"
+  | "run-status"
   | "status"
   | "subtree";
 
@@ -243,14 +328,14 @@ export const TreeNodeStyle: { [s in TreeNodeState]?: { [n in ShapeName]?: NodeSt
   dragsrc: {
     "drag-src": { visibility: "visible" },
   },
-  dragup: {
-    "drag-up": { visibility: "visible" },
+  dragbefore: {
+    "drag-before": { visibility: "visible" },
   },
-  dragdown: {
-    "drag-down": { visibility: "visible" },
+  dragafter: {
+    "drag-after": { visibility: "visible" },
   },
-  dragright: {
-    "drag-right": { visibility: "visible" },
+  dragchild: {
+    "drag-child": { visibility: "visible" },
   },
   highlightargs: {
     "args-bg": { visibility: "visible" },
@@ -264,6 +349,15 @@ export const TreeNodeStyle: { [s in TreeNodeState]?: { [n in ShapeName]?: NodeSt
     "output-bg": { visibility: "visible" },
     "output-text": { fill: "white", fontWeight: "bolder" },
   },
+  runsuccess: {
+    "run-status": { visibility: "visible", stroke: "#34d800" },
+  },
+  runfailure: {
+    "run-status": { visibility: "visible", stroke: "#ff0000" },
+  },
+  runrunning: {
+    "run-status": { visibility: "visible", stroke: "#fadb14" },
+  },
   highlightgray: {
     "args-text": { fill: "#666" },
     "desc-text": { fill: "#666" },
@@ -282,6 +376,7 @@ class TreeNode extends Rect {
   private _height = 0;
   private _radius = 0;
   private _nodeLayout: NodeLayout = "compact";
+  private _direction: NodeDirection = "LR";
   private _nodeDef!: NodeDef;
   private _data!: NodeData;
   private _prefix = "";
@@ -290,6 +385,7 @@ class TreeNode extends Rect {
   private _contentX = 0;
   private _contentY = 0;
   private _states: TreeNodeState[] = [];
+  private _palette = NODE_PALETTES.dark;
 
   protected override getKeyStyle(attributes: Required<RectStyleProps>) {
     const style = super.getKeyStyle(attributes);
@@ -354,11 +450,11 @@ class TreeNode extends Rect {
       "id-text",
       GText,
       {
-        fill: "white",
+        fill: this._palette.id,
         fontSize: 20,
         lineHeight: 20,
         lineWidth: 2,
-        stroke: "black",
+        stroke: this._palette.idStroke,
         text: this._prefix + this.id,
         textAlign: "right",
         textBaseline: "top",
@@ -452,6 +548,85 @@ class TreeNode extends Rect {
     );
   }
 
+  private drawDeprecatedBadge(attributes: Required<RectStyleProps>, container: Group) {
+    const deprecation = getNodeDeprecation(this._nodeDef);
+    this.upsert(
+      "deprecated",
+      Badge,
+      {
+        backgroundFill: "#fadb14",
+        backgroundRadius: 2,
+        fill: "black",
+        fontSize: 10,
+        fontWeight: "bold",
+        padding: [1, 4],
+        text: i18n.t("regnode.deprecated"),
+        textAlign: "right",
+        textBaseline: "bottom",
+        x: this._width,
+        y: -3,
+        visibility: deprecation ? "visible" : "hidden",
+      },
+      container
+    );
+  }
+
+  /** The latest comment is shown as a callout above the node, with the number of comments. */
+  private drawCommentCallout(attributes: Required<RectStyleProps>, container: Group) {
+    const comments = this._data.comments ?? [];
+    const latest = comments[comments.length - 1];
+    let text = "";
+    if (latest) {
+      const count = comments.length > 1 ? `${comments.length} ` : "";
+      text = cutWordTo(`💬 ${count}${latest.text.replace(/\s+/g, " ")}`, this._width - 80, "11px");
+    }
+    const visibility = latest ? "visible" : "hidden";
+    const callout = this.upsert(
+      "comment",
+      Badge,
+      {
+        backgroundFill: COMMENT_COLOR,
+        backgroundLineWidth: 1,
+        backgroundRadius: 2,
+        backgroundStroke: COMMENT_BORDER,
+        cursor: "pointer",
+        fill: "black",
+        fontSize: 11,
+        padding: [1, 4],
+        text,
+        textAlign: "left",
+        textBaseline: "bottom",
+        x: 0,
+        y: -6,
+        visibility,
+      },
+      container
+    );
+    this.upsert(
+      "comment-pointer",
+      GPath,
+      {
+        // left open at the top to join the callout
+        d: [
+          ["M", 8, -5.5],
+          ["L", 10, 0],
+          ["L", 16, -5.5],
+        ],
+        fill: COMMENT_COLOR,
+        stroke: COMMENT_BORDER,
+        lineWidth: 1,
+        visibility,
+      },
+      container
+    );
+    if (callout && !Reflect.has(callout, "__bind__")) {
+      Reflect.set(callout, "__bind__", true);
+      callout.addEventListener(CommonEvent.CLICK, () => {
+        this.context.graph.emit(COMMENT_EVENT, { target: this });
+      });
+    }
+  }
+
   private drawDescText(attributes: Required<RectStyleProps>, container: Group) {
     let desc = (this._data.desc || this._nodeDef.desc || "") as string;
     desc = i18n.t("regnode.mark") + desc;
@@ -600,7 +775,7 @@ class TreeNode extends Rect {
         y: -10,
         width: this._width + 20,
         height: this._height + 20,
-        stroke: "#a5b1be",
+        stroke: this._palette.subtree,
         lineWidth: 2.5,
         lineDash: [6, 6],
         radius: this._radius,
@@ -644,54 +819,73 @@ class TreeNode extends Rect {
       container
     );
 
+    // before and after are the sibling sides, the children grow from the child side
+    const w = this._width;
+    const h = this._height;
+    const r = this._radius;
+    const vertical = this._direction === "TB";
+    const dropStyle = {
+      lineWidth: 2,
+      stroke: "#ff0000",
+      strokeOpacity: 0.8,
+      fill: "#ff0000",
+      fillOpacity: 0.8,
+      visibility: "hidden",
+    } as const;
+
     this.upsert(
-      "drag-up",
+      "drag-before",
       GRect,
       {
-        width: this._width,
-        height: this._height / 2,
-        lineWidth: 2,
-        stroke: "#ff0000",
-        strokeOpacity: 0.8,
-        fill: "#ff0000",
-        fillOpacity: 0.8,
-        radius: [this._radius, this._radius, 0, 0],
-        visibility: "hidden",
+        width: vertical ? w / 2 : w,
+        height: vertical ? h : h / 2,
+        radius: vertical ? [r, 0, 0, r] : [r, r, 0, 0],
+        ...dropStyle,
       },
       container
     );
 
     this.upsert(
-      "drag-down",
+      "drag-after",
       GRect,
       {
-        y: this._height / 2,
-        width: this._width,
-        height: this._height / 2,
-        lineWidth: 2,
-        stroke: "#ff0000",
-        strokeOpacity: 0.8,
-        fill: "#ff0000",
-        fillOpacity: 0.8,
-        radius: [0, 0, this._radius, this._radius],
-        visibility: "hidden",
+        x: vertical ? w / 2 : 0,
+        y: vertical ? 0 : h / 2,
+        width: vertical ? w / 2 : w,
+        height: vertical ? h : h / 2,
+        radius: vertical ? [0, r, r, 0] : [0, 0, r, r],
+        ...dropStyle,
       },
       container
     );
 
     this.upsert(
-      "drag-right",
+      "drag-child",
       GRect,
       {
-        x: this._width / 2,
-        width: this._width / 2,
-        height: this._height,
-        lineWidth: 2,
-        stroke: "#ff0000",
-        strokeOpacity: 0.8,
-        fill: "#ff0000",
-        fillOpacity: 0.8,
-        radius: [0, this._radius, this._radius, 0],
+        x: this._direction === "LR" ? w / 2 : 0,
+        y: vertical ? h / 2 : 0,
+        width: vertical ? w : w / 2,
+        height: vertical ? h / 2 : h,
+        radius: vertical ? [0, 0, r, r] : this._direction === "RL" ? [r, 0, 0, r] : [0, r, r, 0],
+        ...dropStyle,
+      },
+      container
+    );
+  }
+
+  private drawRunStatusShape(attributes: Required<RectStyleProps>, container: Group) {
+    this.upsert(
+      "run-status",
+      GRect,
+      {
+        x: -5,
+        y: -5,
+        width: this._width + 10,
+        height: this._height + 10,
+        lineWidth: 4,
+        stroke: "#34d800",
+        radius: this._radius + 4,
         visibility: "hidden",
       },
       container
@@ -701,6 +895,12 @@ class TreeNode extends Rect {
   private drawPortShape(attributes: Required<RectStyleProps>, container: Group) {
     const GREY_COLOR = "#666";
     const size = 14;
+    // the number of the hidden descendants is shown when collapsed
+    let hidden = -1;
+    if (attributes.collapsed) {
+      b3util.dfs(this._data, () => void hidden++);
+    }
+    const text = attributes.collapsed ? `+${hidden}` : "-";
     const btn = this.upsert(
       "collapse",
       Badge,
@@ -710,15 +910,15 @@ class TreeNode extends Rect {
         backgroundLineWidth: 1,
         backgroundRadius: size / 2,
         backgroundStroke: GREY_COLOR,
-        backgroundWidth: size,
+        backgroundWidth: attributes.collapsed ? Math.max(size, text.length * 7 + 6) : size,
         cursor: "pointer",
         fill: GREY_COLOR,
-        fontSize: 16,
-        text: attributes.collapsed ? "+" : "-",
+        fontSize: attributes.collapsed ? 11 : 16,
+        text,
         textAlign: "center",
         textBaseline: "middle",
-        x: this._width,
-        y: this._height / 2,
+        x: this._direction === "TB" ? this._width / 2 : this._direction === "RL" ? 0 : this._width,
+        y: this._direction === "TB" ? this._height : this._height / 2,
         visibility: this._data.children?.length ? "visible" : "hidden",
       },
       container
@@ -726,13 +926,7 @@ class TreeNode extends Rect {
     if (btn && !Reflect.has(btn, "__bind__")) {
       Reflect.set(btn, "__bind__", true);
       btn.addEventListener(CommonEvent.CLICK, () => {
-        const { collapsed } = this.attributes;
-        const graph = this.context.graph;
-        if (collapsed) {
-          graph.expandElement(this.id);
-        } else {
-          graph.collapseElement(this.id);
-        }
+        this.context.graph.emit(COLLAPSE_EVENT, { target: this });
       });
     }
   }
@@ -769,6 +963,8 @@ class TreeNode extends Rect {
     this._data = data;
     this._classify = classify;
     this._nodeLayout = useSetting.getState().data.layout;
+    this._direction = (node.direction as NodeDirection | undefined) ?? "LR";
+    this._palette = NODE_PALETTES[(node.theme as ImageTheme | undefined) ?? "dark"];
     this._contentWidth = 220;
     this._contentX = this._nodeLayout === "compact" ? 6 : 46;
     this._contentY = 28;
@@ -777,7 +973,7 @@ class TreeNode extends Rect {
     this.resetStyle();
 
     assert(attributes && container);
-    attributes.fill = "white";
+    attributes.fill = this._palette.fill;
     attributes.stroke = color;
 
     // console.log(this.id, this.states);
@@ -789,12 +985,15 @@ class TreeNode extends Rect {
     this.drawStatusIcon(attributes, container);
     this.drawDebugIcon(attributes, container);
     this.drawDisabledIcon(attributes, container);
+    this.drawDeprecatedBadge(attributes, container);
+    this.drawCommentCallout(attributes, container);
     this.drawDescText(attributes, container);
     this.drawArgsText(attributes, container);
     this.drawInputText(attributes, container);
     this.drawOutputText(attributes, container);
     this.drawSubtreeShape(attributes, container);
     this.drawDragShape(attributes, container);
+    this.drawRunStatusShape(attributes, container);
     this.drawPortShape(attributes, container);
     this.drawIdText(attributes, container);
   }
@@ -0,0 +1,73 @@
+import { Flex } from "antd";
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { VscDebugAlt, VscRemote } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+export const RemoteDebug: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      remotePort: state.remotePort,
+      remoteRuntimes: state.remoteRuntimes,
+      remoteWatching: state.remoteWatching,
+      watchRemoteAgent: state.watchRemoteAgent,
+      unwatchRemoteAgent: state.unwatchRemoteAgent,
+    }))
+  );
+  const { t } = useTranslation();
+
+  if (workspace.remoteRuntimes.length === 0) {
+    return (
+      <div className="b3-dock-empty">
+        {workspace.remotePort === 0
+          ? t("remote.disabled")
+          : t("remote.empty", { port: workspace.remotePort ?? "" })}
+      </div>
+    );
+  }
+
+  const watching = workspace.remoteWatching;
+
+  return (
+    <div
+      className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+      style={{ overflow: "auto", height: "100%" }}
+    >
+      {workspace.remoteRuntimes.map((runtime) => (
+        <div key={runtime.client}>
+          <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+            <VscRemote style={{ flexShrink: 0 }} />
+            <span>{runtime.name}</span>
+            <span className="b3-dock-count">{runtime.agents.length}</span>
+          </Flex>
+          {runtime.agents.map((agent) => {
+            const selected = watching?.client === runtime.client && watching.agent.id === agent.id;
+            return (
+              <Flex
+                key={agent.id}
+                className={mergeClassNames("b3-dock-item", selected && "b3-dock-item-selected")}
+                gap="6px"
+                align="center"
+                style={{ paddingLeft: "44px" }}
+                onClick={() => {
+                  if (selected) {
+                    workspace.unwatchRemoteAgent();
+                  } else {
+                    workspace.watchRemoteAgent(runtime.client, agent);
+                  }
+                }}
+              >
+                <VscDebugAlt style={{ flexShrink: 0, opacity: selected ? 1 : 0.4 }} />
+                <span>{agent.name ?? agent.id}</span>
+                <span style={{ color: "gray" }}>{agent.tree}</span>
+              </Flex>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
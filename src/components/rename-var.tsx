@@ -0,0 +1,189 @@
+import { Button, Flex, Input, Modal } from "antd";
+import { FC, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { VscSymbolVariable } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { NodeData, TreeData } from "../misc/b3type";
+import * as b3util from "../misc/b3util";
+import { Hotkey } from "../misc/keys";
+import { readTree } from "../misc/util";
+
+interface FileUsage {
+  path: string;
+  prefix: string;
+  declared: boolean;
+  nodes: NodeData[];
+}
+
+/**
+ * Returns the files whose variables are seen by the tree, the same as `refreshVarDecl`:
+ * the tree itself, its imports and its subtrees with their imports.
+ */
+const collectVisibleFiles = (trees: Map<string, TreeData>, path: string) => {
+  const visible: Set<string> = new Set([path]);
+  const load = (file: string) => {
+    if (!visible.has(file)) {
+      visible.add(file);
+      trees.get(file)?.import.forEach(load);
+    }
+  };
+  const tree = trees.get(path);
+  tree?.import.forEach(load);
+  if (tree) {
+    b3util.dfs(tree.root, (node) => {
+      if (node.path) {
+        load(node.path);
+      }
+    });
+  }
+  return visible;
+};
+
+/**
+ * Collects the usages of the variable in its scope and the names of the variables seen there.
+ * The scope is the files seeing the declaration visible to the editing tree, or the editing tree
+ * alone if the variable is not declared.
+ */
+const collectUsages = (name: string) => {
+  const workspace = useWorkspace.getState();
+  const trees: Map<string, TreeData> = new Map();
+  const fullpaths: Map<string, string> = new Map();
+  workspace.allFiles.forEach((file) => {
+    try {
+      const path = workspace.relative(file.path);
+      trees.set(path, workspace.find(file.path)?.data ?? readTree(file.path));
+      fullpaths.set(path, file.path);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+
+  const editing = workspace.editing ? workspace.relative(workspace.editing.path) : "";
+  const declaring = Array.from(collectVisibleFiles(trees, editing)).filter((path) => {
+    return trees.get(path)?.vars.some((v) => v.name === name);
+  });
+
+  const usages: FileUsage[] = [];
+  const declared: Set<string> = new Set();
+  trees.forEach((tree, path) => {
+    const visible = collectVisibleFiles(trees, path);
+    if (declaring.length > 0 ? !declaring.some((v) => visible.has(v)) : path !== editing) {
+      return;
+    }
+    visible.forEach((file) => trees.get(file)?.vars.forEach((v) => declared.add(v.name)));
+    const usage = b3util.findVarUsage(tree, name);
+    if (usage.declared || usage.nodes.length > 0) {
+      usages.push({ path: fullpaths.get(path)!, prefix: tree.prefix, ...usage });
+    }
+  });
+  usages.sort((a, b) => a.path.localeCompare(b.path));
+  return { usages, declared };
+};
+
+const RenameVarForm: FC<{ name: string; onClose: () => void }> = ({ name, onClose }) => {
+  const { t } = useTranslation();
+  const workspace = useWorkspace.getState();
+  const [value, setValue] = useState(name);
+  const { usages, declared } = useMemo(() => collectUsages(name), [name]);
+  const count = usages.reduce((n, v) => n + v.nodes.length, 0);
+
+  let error: string | undefined;
+  if (!b3util.isValidVariableName(value)) {
+    error = t("tree.vars.invalidName");
+  } else if (value !== name && declared.has(value)) {
+    error = t("renameVar.exists", { variable: value });
+  }
+  const disabled = !!error || value === name || usages.length === 0;
+
+  const apply = () => {
+    if (!disabled) {
+      const files = usages.map((v) => v.path);
+      workspace.renameVar(name, value, files);
+      onClose();
+    }
+  };
+
+  return (
+    <Flex vertical gap="middle">
+      <div style={{ fontSize: "16px", fontWeight: "600" }}>
+        {t("renameVar.title", { variable: name })}
+      </div>
+      <Flex vertical gap="4px">
+        <Input
+          autoFocus
+          value={value}
+          status={error ? "error" : undefined}
+          onChange={(e) => setValue(e.target.value.trim())}
+          onKeyDown={(e) => e.code === Hotkey.Enter && apply()}
+        />
+        {error && <span style={{ color: "#f14c4c", fontSize: "12px" }}>{error}</span>}
+      </Flex>
+      <div style={{ color: "gray" }}>
+        {usages.length > 0
+          ? t("renameVar.preview", { files: usages.length, nodes: count })
+          : t("renameVar.empty", { variable: name })}
+      </div>
+      <div style={{ maxHeight: "300px", overflow: "auto", margin: "0 -24px" }}>
+        {usages.map((usage) => (
+          <div key={usage.path}>
+            <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+              <span>{workspace.relative(usage.path)}</span>
+              <span className="b3-dock-count">{usage.nodes.length}</span>
+            </Flex>
+            {usage.declared && (
+              <Flex className="b3-dock-item" gap="6px" align="center" style={{ paddingLeft: 44 }}>
+                <VscSymbolVariable style={{ flexShrink: 0 }} />
+                <span>{t("renameVar.declaration")}</span>
+              </Flex>
+            )}
+            {usage.nodes.map((node) => (
+              <Flex
+                key={node.id}
+                className="b3-dock-item"
+                gap="6px"
+                align="center"
+                style={{ paddingLeft: 44 }}
+              >
+                <span>
+                  {usage.prefix}
+                  {node.id} {node.name}
+                </span>
+                {node.desc && <span style={{ color: "gray" }}>{node.desc}</span>}
+              </Flex>
+            ))}
+          </div>
+        ))}
+      </div>
+      <Flex gap="6px" justify="flex-end">
+        <Button onClick={onClose}>{t("cancel")}</Button>
+        <Button type="primary" disabled={disabled} onClick={apply}>
+          {t("renameVar")}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
+
+export const RenameVar: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      renamingVar: state.renamingVar,
+      showRenameVar: state.showRenameVar,
+    }))
+  );
+  const name = workspace.renamingVar;
+  return (
+    <Modal
+      centered
+      destroyOnClose
+      open={!!name}
+      width={520}
+      footer={null}
+      closable={false}
+      onCancel={() => workspace.showRenameVar(null)}
+    >
+      {name && <RenameVarForm name={name} onClose={() => workspace.showRenameVar(null)} />}
+    </Modal>
+  );
+};
@@ -0,0 +1,184 @@
+import { Button, Checkbox, Flex, Input } from "antd";
+import { FC, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { VscCaseSensitive, VscRegex, VscReplaceAll } from "react-icons/vsc";
+import { useDebounceCallback } from "usehooks-ts";
+import { useShallow } from "zustand/react/shallow";
+import { SearchResult, useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { createSearchRegExp, formatSearchField, SearchMatch, SearchOption } from "../misc/search";
+import { mergeClassNames } from "../misc/util";
+
+export const Search: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      open: state.open,
+      relative: state.relative,
+      replaceInWorkspace: state.replaceInWorkspace,
+      searchWorkspace: state.searchWorkspace,
+    }))
+  );
+  const { t } = useTranslation();
+  const [option, setOption] = useState<SearchOption>({
+    text: "",
+    caseSensitive: false,
+    regex: false,
+  });
+  const [replacement, setReplacement] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [excluded, setExcluded] = useState<Set<SearchMatch>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const search = (value: SearchOption) => {
+    setExcluded(new Set());
+    setError(null);
+    if (!value.text) {
+      setResults([]);
+      return;
+    }
+    try {
+      setResults(workspace.searchWorkspace(value));
+    } catch (e) {
+      setResults([]);
+      setError(t("search.invalidRegex"));
+    }
+  };
+
+  const onDebounceSearch = useDebounceCallback(search, 300);
+
+  const updateOption = (value: SearchOption, debounce: boolean = false) => {
+    setOption(value);
+    if (debounce) {
+      onDebounceSearch(value);
+    } else {
+      search(value);
+    }
+  };
+
+  const toggleMatch = (match: SearchMatch) => {
+    const value = new Set(excluded);
+    if (!value.delete(match)) {
+      value.add(match);
+    }
+    setExcluded(value);
+  };
+
+  const replaceAll = async () => {
+    const selected = results
+      .map((v) => ({ ...v, matches: v.matches.filter((m) => !excluded.has(m)) }))
+      .filter((v) => v.matches.length > 0);
+    if (selected.length > 0) {
+      await workspace.replaceInWorkspace(selected, option, replacement);
+      search(option);
+    }
+  };
+
+  const count = results.reduce((n, v) => n + v.matches.length, 0);
+  const regexp = results.length > 0 ? createSearchRegExp(option) : null;
+
+  const preview = (value: string) => {
+    regexp!.lastIndex = 0;
+    return value.replace(regexp!, replacement);
+  };
+
+  return (
+    <Flex vertical style={{ height: "100%" }}>
+      <Flex gap="6px" align="center" style={{ padding: "6px 24px" }}>
+        <Input
+          size="small"
+          value={option.text}
+          placeholder={t("search.placeholder")}
+          style={{ width: "280px" }}
+          status={error ? "error" : undefined}
+          onChange={(e) => updateOption({ ...option, text: e.target.value }, true)}
+          onPressEnter={() => search(option)}
+          suffix={
+            <Flex gap="2px" style={{ alignItems: "center" }}>
+              <Button
+                type="text"
+                size="small"
+                title={t("search.caseSensitive")}
+                className={mergeClassNames(
+                  "b3-editor-filter",
+                  option.caseSensitive && "b3-editor-filter-selected"
+                )}
+                icon={<VscCaseSensitive style={{ width: "18px", height: "18px" }} />}
+                onClick={() => updateOption({ ...option, caseSensitive: !option.caseSensitive })}
+              />
+              <Button
+                type="text"
+                size="small"
+                title={t("search.regex")}
+                className={mergeClassNames(
+                  "b3-editor-filter",
+                  option.regex && "b3-editor-filter-selected"
+                )}
+                icon={<VscRegex style={{ width: "16px", height: "16px" }} />}
+                onClick={() => updateOption({ ...option, regex: !option.regex })}
+              />
+            </Flex>
+          }
+        />
+        <Input
+          size="small"
+          value={replacement}
+          placeholder={t("search.replace")}
+          style={{ width: "240px" }}
+          onChange={(e) => setReplacement(e.target.value)}
+        />
+        <Button
+          size="small"
+          icon={<VscReplaceAll />}
+          disabled={count === excluded.size}
+          onClick={replaceAll}
+        >
+          {t("search.replaceAll")}
+        </Button>
+        <span style={{ color: error ? "#f14c4c" : "gray", fontSize: "13px" }}>
+          {error ?? (option.text && t("search.summary", { count, files: results.length }))}
+        </span>
+      </Flex>
+      <div
+        className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+        style={{ overflow: "auto", flex: 1, minHeight: 0 }}
+      >
+        {results.map((file) => (
+          <div key={file.path}>
+            <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+              <span>{workspace.relative(file.path)}</span>
+              <span className="b3-dock-count">{file.matches.length}</span>
+            </Flex>
+            {file.matches.map((match, i) => (
+              <Flex
+                key={i}
+                className="b3-dock-item"
+                gap="6px"
+                align="center"
+                style={{ paddingLeft: "44px" }}
+                onClick={() => workspace.open(file.path, match.id)}
+              >
+                <Checkbox
+                  checked={!excluded.has(match)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleMatch(match)}
+                />
+                <span style={{ color: "gray" }}>
+                  {file.prefix}
+                  {match.id} {formatSearchField(match.field)}
+                </span>
+                <span
+                  className={mergeClassNames(
+                    replacement && !excluded.has(match) && "b3-search-replaced"
+                  )}
+                >
+                  {match.value}
+                </span>
+                {replacement && !excluded.has(match) && <span>{preview(match.value)}</span>}
+              </Flex>
+            ))}
+          </div>
+        ))}
+      </div>
+    </Flex>
+  );
+};
@@ -0,0 +1,65 @@
+import { Flex } from "antd";
+import { FC } from "react";
+import { useTranslation } from "react-i18next";
+import { VscSymbolClass } from "react-icons/vsc";
+import { useShallow } from "zustand/react/shallow";
+import { useWorkspace } from "../contexts/workspace-context";
+import { isMacos } from "../misc/keys";
+import { mergeClassNames } from "../misc/util";
+
+export const Usages: FC = () => {
+  const workspace = useWorkspace(
+    useShallow((state) => ({
+      nodeUsages: state.nodeUsages,
+      open: state.open,
+      relative: state.relative,
+    }))
+  );
+  const { t } = useTranslation();
+
+  const usages = workspace.nodeUsages;
+  if (!usages) {
+    return <div className="b3-dock-empty">{t("usages.empty")}</div>;
+  }
+
+  const count = usages.files.reduce((n, v) => n + v.nodes.length, 0);
+
+  return (
+    <div
+      className={mergeClassNames("b3-dock-content", isMacos ? "" : "b3-overflow")}
+      style={{ overflow: "auto", height: "100%" }}
+    >
+      <div className="b3-dock-item" style={{ color: "gray", cursor: "default" }}>
+        {count > 0
+          ? t("usages.summary", { name: usages.name, count, files: usages.files.length })
+          : t("usages.notFound", { name: usages.name })}
+      </div>
+      {usages.files.map((file) => (
+        <div key={file.path}>
+          <Flex className="b3-dock-item" gap="6px" align="center" style={{ fontWeight: "600" }}>
+            <span>{workspace.relative(file.path)}</span>
+            <span className="b3-dock-count">{file.nodes.length}</span>
+          </Flex>
+          {file.nodes.map((node) => (
+            <Flex
+              key={node.id}
+              className="b3-dock-item"
+              gap="6px"
+              align="center"
+              style={{ paddingLeft: "44px" }}
+              onClick={() => workspace.open(file.path, node.id)}
+            >
+              <VscSymbolClass style={{ flexShrink: 0 }} />
+              <span>
+                {file.prefix}
+                {node.id}
+              </span>
+              {node.desc && <span>{node.desc}</span>}
+              {node.args && <span style={{ color: "gray" }}>{JSON.stringify(node.args)}</span>}
+            </Flex>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -14,9 +14,11 @@ import { EditorStore, useWorkspace } from "../contexts/workspace-context";
 import { modal } from "../misc/hooks";
 import { Hotkey, isMacos, setInputFocus, useKeyDown } from "../misc/keys";
 import Path from "../misc/path";
+import { Dock } from "./dock";
 import { Editor } from "./editor";
 import { Explorer } from "./explorer";
 import { Inspector } from "./inspector";
+import { RenameVar } from "./rename-var";
 import { TitleBar } from "./titlebar";
 
 const { Header, Content, Sider } = Layout;
@@ -307,7 +309,7 @@ export const Workspace: FC = () => {
             <Explorer />
           </Sider>
         )}
-        <Content>
+        <Content style={{ display: "flex", flexDirection: "column" }}>
           {!workspace.fileTree && (
             <Flex vertical align="center" style={{ height: "100%" }}>
               <Flex
@@ -436,6 +438,7 @@ export const Workspace: FC = () => {
             <Tabs
               hideAdd
               type="editable-card"
+              style={{ minHeight: 0 }}
               activeKey={workspace.editing?.path}
               onEdit={(activeKey, action) => {
                 if (action === "remove") {
@@ -479,9 +482,11 @@ export const Workspace: FC = () => {
               })}
             />
           )}
+          {workspace.fileTree && <Dock />}
         </Content>
         <Inspector />
       </Layout>
+      <RenameVar />
     </Layout>
   );
 };
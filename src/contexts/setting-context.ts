@@ -1,7 +1,9 @@
 import { app } from "@electron/remote";
 import * as fs from "fs";
+import * as os from "os";
 import { create } from "zustand";
-import { NodeLayout } from "../misc/b3type";
+import { NodeLayout, TreeLayout } from "../misc/b3type";
+import { ImageTheme } from "../misc/export-image";
 import { readJson, writeJson } from "../misc/util";
 import { useWorkspace } from "./workspace-context";
 
@@ -16,11 +18,18 @@ export type ProjectSetting = {
   path: string;
   buildDir: string;
   editors: OpenEditor[];
+  /** ids of the collapsed nodes keyed by file path, kept after the editor is closed */
+  collapsed?: Record<string, string[]>;
 };
 
 export type SettingModel = {
   recent: string[];
   layout: NodeLayout;
+  treeLayout: TreeLayout;
+  minimap: boolean;
+  exportTheme: ImageTheme;
+  /** author of the comments, the name of the system user when empty */
+  author: string;
   projects: ProjectSetting[];
 };
 
@@ -32,18 +41,35 @@ export type SettingStore = {
   appendRecent: (path: string) => void;
   removeRecent: (path: string) => void;
   setLayout: (layout: "compact" | "normal") => void;
+  setTreeLayout: (treeLayout: Partial<TreeLayout>) => void;
+  setMinimap: (minimap: boolean) => void;
+  setExportTheme: (theme: ImageTheme) => void;
+  setAuthor: (author: string) => void;
+  getAuthor: () => string;
   setBuildDir: (project: string, dir: string) => void;
   getBuildDir: (project: string) => string;
   openEditor: (project: string, path: string) => void;
   closeEditor: (project: string, path: string) => void;
+  setCollapsed: (project: string, path: string, ids: string[]) => void;
+  getCollapsed: (project: string, path: string) => string[];
   getEditors: (project: string) => OpenEditor[];
 };
 
+export const defaultTreeLayout: TreeLayout = {
+  direction: "LR",
+  levelGap: 30,
+  siblingGap: 10,
+};
+
 export const useSetting = create<SettingStore>((set, get) => ({
   data: {
     recent: [],
     buildDir: "",
     layout: "compact",
+    treeLayout: { ...defaultTreeLayout },
+    minimap: true,
+    exportTheme: "dark",
+    author: "",
     projects: [],
   },
   load: () => {
@@ -51,6 +77,10 @@ export const useSetting = create<SettingStore>((set, get) => ({
       if (fs.existsSync(settingPath)) {
         const settings = readJson(settingPath) as SettingModel;
         settings.layout = settings.layout || "compact";
+        settings.treeLayout = { ...defaultTreeLayout, ...settings.treeLayout };
+        settings.minimap = settings.minimap ?? true;
+        settings.exportTheme = settings.exportTheme || "dark";
+        settings.author = settings.author || "";
         settings.projects = settings.projects || [];
         set({ data: settings });
       }
@@ -85,6 +115,36 @@ export const useSetting = create<SettingStore>((set, get) => ({
     useWorkspace.getState().editing?.dispatch?.("refresh");
   },
 
+  setTreeLayout: (treeLayout: Partial<TreeLayout>) => {
+    const { data, save } = get();
+    set({ data: { ...data, treeLayout: { ...data.treeLayout, ...treeLayout } } });
+    save();
+    useWorkspace.getState().editing?.dispatch?.("refresh");
+  },
+
+  setMinimap: (minimap: boolean) => {
+    const { data, save } = get();
+    set({ data: { ...data, minimap } });
+    save();
+    useWorkspace.getState().editing?.dispatch?.("refresh");
+  },
+
+  setExportTheme: (exportTheme: ImageTheme) => {
+    const { data, save } = get();
+    set({ data: { ...data, exportTheme } });
+    save();
+  },
+
+  setAuthor: (author: string) => {
+    const { data, save } = get();
+    set({ data: { ...data, author: author.trim() } });
+    save();
+  },
+
+  getAuthor: () => {
+    return get().data.author || os.userInfo().username;
+  },
+
   setBuildDir: (projectPath: string, dir: string) => {
     const { data, save } = get();
     let project = data.projects.find((v) => v.path === projectPath);
@@ -137,6 +197,28 @@ export const useSetting = create<SettingStore>((set, get) => ({
     save();
   },
 
+  setCollapsed: (project: string, path: string, ids: string[]) => {
+    const { data, save } = get();
+    const projectSetting = data.projects.find((v) => v.path === project);
+    if (!projectSetting) {
+      return;
+    }
+    const collapsed = { ...projectSetting.collapsed };
+    if (ids.length) {
+      collapsed[path] = ids;
+    } else {
+      delete collapsed[path];
+    }
+    projectSetting.collapsed = collapsed;
+    set({ data: { ...data, projects: data.projects } });
+    save();
+  },
+
+  getCollapsed: (project: string, path: string) => {
+    const { data } = get();
+    return data.projects.find((v) => v.path === project)?.collapsed?.[path] ?? [];
+  },
+
   getEditors: (project: string) => {
     const { data } = get();
     return data.projects.find((v) => v.path === project)?.editors ?? [];
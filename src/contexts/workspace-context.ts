@@ -4,11 +4,28 @@ import * as fs from "fs";
 import React from "react";
 import { create } from "zustand";
 import { NodeDef } from "../behavior3/src/behavior3";
-import { FileVarDecl, ImportDecl, NodeData, TreeData, VarDecl } from "../misc/b3type";
+import {
+  FileVarDecl,
+  getNodeMigration,
+  ImportDecl,
+  NodeData,
+  TreeComment,
+  TreeData,
+  TreeLayout,
+  VarDecl,
+} from "../misc/b3type";
 import * as b3util from "../misc/b3util";
-import { message } from "../misc/hooks";
+import { message, modal } from "../misc/hooks";
 import i18n from "../misc/i18n";
 import Path from "../misc/path";
+import { RemoteAgent, RemoteCommand, RemoteEvent } from "../misc/remote-debug";
+import {
+  createSearchRegExp,
+  replaceNodeField,
+  SearchMatch,
+  SearchOption,
+  searchNode,
+} from "../misc/search";
 import { zhNodeDef } from "../misc/template";
 import { readJson, readTree, readWorkspace, writeJson, writeTree } from "../misc/util";
 import { useSetting } from "./setting-context";
@@ -27,6 +44,7 @@ export type EditEvent =
   | "undo"
   | "redo"
   | "refresh"
+  | "refreshNodeDefs"
   | "rename"
   | "reload"
   | "updateTree"
@@ -34,7 +52,31 @@ export type EditEvent =
   | "searchNode"
   | "editSubtree"
   | "saveAsSubtree"
-  | "clickVar";
+  | "exportImage"
+  | "clickVar"
+  | "renameVar"
+  | "replaceSearch"
+  | "migrate"
+  | "focusNode"
+  | "fitView"
+  | "fitSelection"
+  | "centerSelection"
+  | "addComment"
+  | "updateComment"
+  | "removeComment"
+  | "simulate"
+  | "simulateRestart"
+  | "simulateStep"
+  | "simulateStepInto"
+  | "simulateStop"
+  | "mockStatus"
+  | "loadTrace"
+  | "saveTrace"
+  | "seekTrace"
+  | "closeTrace"
+  | "remoteTick"
+  | "remoteBlackboard"
+  | "setBlackboardValue";
 
 export class EditorStore {
   path: string;
@@ -47,7 +89,7 @@ export class EditorStore {
   alertReload: boolean = false;
   focusId?: string | null;
 
-  dispatch?: (event: EditEvent, data?: unknown) => void;
+  dispatch?: (event: EditEvent, data?: unknown) => void | Promise<void>;
 
   constructor(path: string) {
     this.path = path;
@@ -79,6 +121,8 @@ export type EditNode = {
   prefix: string;
   disabled: boolean;
   subtreeEditable?: boolean;
+  /** ids of all selected nodes when editing several nodes at once */
+  batch?: string[];
 };
 
 export type EditNodeDef = {
@@ -91,6 +135,7 @@ export type EditTree = {
   desc?: string;
   export?: boolean;
   prefix?: string;
+  layout?: Partial<TreeLayout>;
   group: string[];
   import: ImportDecl[];
   vars: VarDecl[];
@@ -104,16 +149,88 @@ export type FileMeta = {
   exists?: boolean;
 };
 
+export type FileProblems = {
+  path: string;
+  prefix: string;
+  problems: b3util.CheckProblem[];
+  depends: string[];
+};
+
+export type DockPanel =
+  | "problems"
+  | "remote"
+  | "blackboard"
+  | "usages"
+  | "search"
+  | "migration"
+  | "docs"
+  | "comments";
+
+export type SearchResult = {
+  path: string;
+  prefix: string;
+  matches: SearchMatch[];
+};
+
+export type NodeUsages = {
+  name: string;
+  files: {
+    path: string;
+    prefix: string;
+    nodes: NodeData[];
+  }[];
+};
+
+export type MigrationReport = {
+  path: string;
+  prefix: string;
+  changes: b3util.MigrationChange[];
+};
+
+export type Blackboard = {
+  values: Record<string, unknown>;
+  /** names of the variables changed on the last tick */
+  changed: string[];
+  /** values at a paused node cannot be edited until the tick is finished */
+  readonly?: boolean;
+};
+
+export type CommentEntry = TreeComment & {
+  /** id of the node, undefined when floating on the canvas */
+  node?: string;
+  name?: string;
+  /** index in the comments of the node or the tree */
+  index: number;
+};
+
+export type RemoteRuntime = {
+  client: number;
+  name: string;
+  agents: RemoteAgent[];
+};
+
+export type RemoteWatching = {
+  client: number;
+  agent: RemoteAgent;
+  path: string;
+};
+
 export interface WorkspaceModel {
   files?: { path: string; desc: string }[];
   settings: {
     checkExpr?: boolean;
     buildScript?: string;
+    /** node config files or directories, merged in order */
+    nodeConf?: string[];
+    /** migrate the trees when the workspace is opened */
+    migrateOnLoad?: boolean;
   };
 }
 
 export type WorkspaceStore = {
   init: (project: string) => void;
+  /** Loads the trees and node defs without opening editors, watching or writing any file. */
+  loadProject: (project: string) => void;
   createProject: () => void;
   openProject: (project?: string) => void;
   batchProject: () => void;
@@ -126,12 +243,15 @@ export type WorkspaceStore = {
   // settings
   setCheckExpr: (checkExpr: boolean) => void;
   setupBuildScript: () => void;
+  addNodeConfig: () => void;
 
   loadWorkspace: () => void;
   saveWorkspace: () => void;
   updateFileMeta: (editor: EditorStore) => void;
 
   allFiles: Map<string, FileMeta>;
+  /** increased when the tree files are changed, added or removed on disk */
+  filesVersion: number;
   fileTree?: FileTreeType;
   editors: EditorStore[];
   editing?: EditorStore;
@@ -147,15 +267,56 @@ export type WorkspaceStore = {
   find: (path: string) => EditorStore | undefined;
   relative: (path: string) => string;
   refresh: (path: string) => void;
+  nodeUsages?: NodeUsages | null;
+  findNodeUsages: (name: string) => void;
+  collectNodeUsages: (name: string) => NodeUsages;
+
+  renamingVar?: string | null;
+  showRenameVar: (name: string | null) => void;
+  /** `files` are the trees in the scope of the variable, see `RenameVar` */
+  renameVar: (from: string, to: string, files: string[]) => void;
+  migrationReports?: MigrationReport[] | null;
+  migrateWorkspace: (silent?: boolean) => void;
+  searchWorkspace: (option: SearchOption) => SearchResult[];
+  replaceInWorkspace: (
+    results: SearchResult[],
+    option: SearchOption,
+    replacement: string
+  ) => Promise<void>;
 
   save: () => void;
   saveAs: () => void;
   saveAll: () => void;
 
   watch(): void;
-  loadTrees: () => void;
+  /** `readonly` leaves the file list of the workspace file unsaved. */
+  loadTrees: (readonly?: boolean) => void;
+
+  problems: Map<string, FileProblems>;
+  checkProblems: (files?: string[]) => void;
+
+  dockPanel?: DockPanel | null;
+  showDockPanel: (panel: DockPanel | null) => void;
+
+  /** port of the remote debug server, 0 when disabled */
+  remotePort?: number;
+  remoteRuntimes: RemoteRuntime[];
+  remoteWatching?: RemoteWatching | null;
+  onRemoteEvent: (event: RemoteEvent) => void;
+  watchRemoteAgent: (client: number, agent: RemoteAgent) => void;
+  unwatchRemoteAgent: () => void;
+  sendRemoteCommand: (type: "pause" | "resume" | "setValue", data?: object) => void;
+
+  /** blackboards of the running trees, keyed by file path */
+  blackboards: Map<string, Blackboard>;
+  updateBlackboard: (path: string, blackboard: Blackboard | null) => void;
+
+  /** comments of the opened trees, keyed by file path */
+  comments: Map<string, CommentEntry[]>;
+  updateComments: (path: string, comments: CommentEntry[] | null) => void;
 
   loadNodeDefs: () => void;
+  saveNodeDef: (name: string, def: NodeDef) => void;
   nodeDefs: b3util.NodeDefs;
   groupDefs: string[];
   usingGroups: typeof b3util.usingGroups;
@@ -210,6 +371,106 @@ const loadFileTree = (workdir: string, filename: string) => {
   return data;
 };
 
+const remoteTreePath = (workdir: string, tree: string) => {
+  const path = Path.posixPath(`${workdir}/${tree}`);
+  return Path.extname(path) ? path : `${path}.json`;
+};
+
+/**
+ * Changes the tree files with `modify`, the unopened files are written at once while
+ * the opened ones are changed by `edit` through the editor, so the change can be undone.
+ * Resolves when all the editors are updated.
+ */
+const modifyTreeFiles = (
+  paths: string[],
+  modify: (tree: TreeData, path: string) => boolean,
+  edit: (editor: EditorStore) => void | Promise<void>
+) => {
+  const workspace = useWorkspace.getState();
+  const editors: EditorStore[] = [];
+  for (const path of paths) {
+    const editor = workspace.find(path);
+    if (editor) {
+      editors.push(editor);
+      continue;
+    }
+    try {
+      const tree = readTree(path);
+      if (modify(tree, path)) {
+        writeTree(path, tree);
+        b3util.files[workspace.relative(path)] = fs.statSync(path).mtimeMs;
+      }
+    } catch (e) {
+      console.error(e);
+      message.error(`invalid file: ${path}`);
+    }
+  }
+  const updates = editors.map(edit);
+  if (workspace.editing) {
+    workspace.onEditingTree(workspace.editing);
+  }
+  return Promise.all(updates).then(() => {});
+};
+
+/**
+ * Returns the fields of `def` to write into the last file defining the node, the fields
+ * inherited unchanged from the earlier files are left out. `cleared` lists the inherited
+ * fields removed from `def`, which an overriding file can not remove.
+ */
+const overrideNodeDef = (workdir: string, name: string, def: NodeDef) => {
+  const base: Partial<NodeDef> = {};
+  if (name === def.name) {
+    for (const file of b3util.nodeDefSources[name]?.slice(0, -1) ?? []) {
+      const nodeDefs = readJson(`${workdir}/${file}`) as NodeDef[];
+      Object.assign(
+        base,
+        nodeDefs.find((v) => v.name === name)
+      );
+    }
+  }
+  const data: Partial<NodeDef> = { name: def.name };
+  const cleared: string[] = [];
+  for (const key of new Set([...Object.keys(def), ...Object.keys(base)])) {
+    const k = key as keyof NodeDef;
+    if (def[k] === undefined) {
+      if (base[k] !== undefined) {
+        cleared.push(key);
+      }
+    } else if (JSON.stringify(def[k]) !== JSON.stringify(base[k])) {
+      Object.assign(data, { [k]: def[k] });
+    }
+  }
+  return { data: data as NodeDef, cleared };
+};
+
+/**
+ * Offers to migrate the nodes still using the old name of a renamed node definition.
+ * The migration is skipped while an earlier node config still defines the old name.
+ */
+const alertRenamedNodeDef = (name: string, newName: string) => {
+  const workspace = useWorkspace.getState();
+  const sources = b3util.nodeDefSources[name];
+  if (sources?.length) {
+    message.warning(
+      i18n.t("nodeDef.renameShadowed", { name, newName, files: sources.join(", ") }),
+      5
+    );
+    return;
+  }
+  const usages = workspace.collectNodeUsages(name);
+  if (usages.files.length === 0) {
+    return;
+  }
+  const nodes = usages.files.reduce((n, v) => n + v.nodes.length, 0);
+  modal.confirm({
+    centered: true,
+    content: i18n.t("nodeDef.renamed", { name, newName, nodes, files: usages.files.length }),
+    okText: i18n.t("migrate"),
+    cancelText: i18n.t("cancel"),
+    onOk: () => workspace.migrateWorkspace(),
+  });
+};
+
 const saveFile = (editor?: EditorStore) => {
   if (editor?.changed) {
     editor.dispatch?.("save");
@@ -218,6 +479,7 @@ const saveFile = (editor?: EditorStore) => {
 
 export const useWorkspace = create<WorkspaceStore>((set, get) => ({
   allFiles: new Map(),
+  filesVersion: 0,
   fileTree: undefined,
   editors: [],
   modifiedEditors: [],
@@ -235,6 +497,9 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
         workspace.loadWorkspace();
         workspace.loadTrees();
         workspace.loadNodeDefs();
+        if (workspace.settings.migrateOnLoad) {
+          workspace.migrateWorkspace(true);
+        }
         workspace.watch();
         useSetting.getState().appendRecent(path);
         if (files.length) {
@@ -262,6 +527,15 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
     }
   },
 
+  loadProject: (path) => {
+    const workspace = get();
+    workspace.workdir = Path.dirname(path).replaceAll(Path.sep, "/");
+    workspace.path = path;
+    workspace.loadWorkspace();
+    workspace.loadTrees(true);
+    workspace.loadNodeDefs();
+  },
+
   // setting
   setCheckExpr: (checkExpr: boolean) => {
     const { settings, saveWorkspace } = get();
@@ -296,6 +570,27 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
     }
   },
 
+  addNodeConfig: () => {
+    const workspace = get();
+    const paths = dialog.showOpenDialogSync({
+      properties: ["openFile", "multiSelections"],
+      defaultPath: workspace.workdir.replaceAll("/", Path.sep),
+      filters: [{ name: "Node Config", extensions: ["b3-setting"] }],
+    });
+    if (paths) {
+      const { settings, saveWorkspace, relative } = get();
+      const nodeConf = settings.nodeConf?.length ? settings.nodeConf : [b3util.DEFAULT_NODE_CONFIG];
+      set({
+        settings: {
+          ...settings,
+          nodeConf: nodeConf.concat(paths.map((v) => relative(Path.posixPath(v)))).unique(),
+        },
+      });
+      saveWorkspace();
+      workspace.loadNodeDefs();
+    }
+  },
+
   createProject: () => {
     const path = dialog.showSaveDialogSync({
       properties: ["showOverwriteConfirmation", "createDirectory"],
@@ -509,6 +804,8 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
       }
     } else if (workspace.editing !== editor) {
       workspace.edit(editor.path, focusId);
+    } else if (focusId) {
+      editor.dispatch?.("focusNode", focusId);
     }
   },
 
@@ -568,6 +865,126 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
     });
   },
 
+  nodeUsages: null,
+  findNodeUsages: (name) => {
+    const workspace = get();
+    set({ nodeUsages: workspace.collectNodeUsages(name) });
+    workspace.showDockPanel("usages");
+  },
+
+  collectNodeUsages: (name) => {
+    const workspace = get();
+    const files: NodeUsages["files"] = [];
+    workspace.allFiles.forEach((file) => {
+      try {
+        const tree = workspace.find(file.path)?.data ?? readTree(file.path);
+        const nodes: NodeData[] = [];
+        b3util.dfsOwnNodes(tree.root, (node) => {
+          if (node.name === name) {
+            nodes.push(node);
+          }
+        });
+        if (nodes.length > 0) {
+          files.push({ path: file.path, prefix: tree.prefix, nodes });
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    });
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { name, files };
+  },
+
+  renamingVar: null,
+  showRenameVar: (name) => {
+    set({ renamingVar: name });
+  },
+
+  renameVar: (from, to, files) => {
+    modifyTreeFiles(
+      files,
+      (tree) => b3util.renameTreeVar(tree, from, to),
+      (editor) => editor.dispatch?.("renameVar", { from, to })
+    );
+  },
+
+  migrationReports: null,
+  migrateWorkspace: (silent) => {
+    const workspace = get();
+    const reports: MigrationReport[] = [];
+    modifyTreeFiles(
+      Array.from(workspace.allFiles.values()).map((v) => v.path),
+      (tree, path) => {
+        const changes = b3util.migrateTree(tree, path);
+        if (changes.length > 0) {
+          reports.push({ path, prefix: tree.prefix, changes });
+        }
+        return changes.length > 0;
+      },
+      (editor) => {
+        // filled before the editor rerenders
+        const changes: b3util.MigrationChange[] = [];
+        editor.dispatch?.("migrate", changes);
+        if (changes.length > 0) {
+          reports.push({ path: editor.path, prefix: editor.data.prefix, changes });
+        }
+      }
+    );
+    reports.sort((a, b) => a.path.localeCompare(b.path));
+    set({ migrationReports: reports });
+    if (reports.length > 0) {
+      workspace.showDockPanel("migration");
+    } else if (!silent) {
+      message.info(i18n.t("migration.empty"));
+    }
+  },
+
+  searchWorkspace: (option) => {
+    const workspace = get();
+    const regexp = createSearchRegExp(option);
+    const results: SearchResult[] = [];
+    workspace.allFiles.forEach((file) => {
+      try {
+        const tree = workspace.find(file.path)?.data ?? readTree(file.path);
+        const matches: SearchMatch[] = [];
+        b3util.dfsOwnNodes(tree.root, (node) => matches.push(...searchNode(node, regexp)));
+        if (matches.length > 0) {
+          results.push({ path: file.path, prefix: tree.prefix, matches });
+        }
+      } catch (e) {
+        console.error(e);
+      }
+    });
+    results.sort((a, b) => a.path.localeCompare(b.path));
+    return results;
+  },
+
+  replaceInWorkspace: (results, option, replacement) => {
+    const regexp = createSearchRegExp(option);
+    const matches = new Map(results.map((v) => [v.path, v.matches]));
+    return modifyTreeFiles(
+      results.map((v) => v.path),
+      (tree, path) => {
+        let changed = false;
+        const nodes = new Map<string, NodeData>();
+        b3util.dfsOwnNodes(tree.root, (node) => nodes.set(node.id, node));
+        for (const match of matches.get(path) ?? []) {
+          const node = nodes.get(match.id);
+          if (node && replaceNodeField(node, match.field, regexp, replacement)) {
+            changed = true;
+          }
+        }
+        return changed;
+      },
+      (editor) =>
+        editor.dispatch?.("replaceSearch", {
+          matches: matches.get(editor.path),
+          regexp,
+          replacement,
+        })
+    );
+  },
+
   save: () => {
     const workspace = get();
     saveFile(workspace.editing);
@@ -591,19 +1008,25 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
           if (!hasEvent) {
             setTimeout(() => {
               workspace.loadTrees();
+              set({ filesVersion: get().filesVersion + 1 });
+              workspace.checkProblems();
               hasEvent = false;
             }, 200);
             hasEvent = true;
           }
         }
         if (filename && (event === "change" || workspace.allFiles.has(filename))) {
-          if (filename === "node-config.b3-setting") {
+          if (b3util.isNodeConfig(filename) || b3util.isArgDataFile(filename)) {
             workspace.loadNodeDefs();
           } else {
             const fullpath = Path.posixPath(`${workspace.workdir}/${filename}`);
             const editor = workspace.find(fullpath);
             const modified = fs.statSync(fullpath).mtimeMs;
             b3util.files[Path.posixPath(filename)] = modified;
+            if (b3util.isTreeFile(filename)) {
+              set({ filesVersion: get().filesVersion + 1 });
+              workspace.checkProblems([Path.posixPath(filename)]);
+            }
             if (editor && editor.mtime + 500 < modified) {
               if (editor.changed) {
                 editor.alertReload = true;
@@ -620,7 +1043,7 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
     }
   },
 
-  loadTrees: () => {
+  loadTrees: (readonly) => {
     const workspace = get();
     const data = loadFileTree(workspace.workdir, ".")!;
     data.title = Path.basename(workspace.workdir).toUpperCase();
@@ -665,20 +1088,212 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
       }
     });
     set({ allFiles });
-    if (updated) {
+    if (updated && !readonly) {
       workspace.saveWorkspace();
     }
   },
 
+  problems: new Map(),
+  checkProblems: (files) => {
+    const workspace = get();
+    const problems = workspace.problems;
+    let paths: string[];
+    if (files) {
+      // recheck changed files and the files depending on them
+      const changed = new Set(files);
+      problems.forEach((entry, path) => {
+        if (entry.depends.some((v) => changed.has(v))) {
+          changed.add(path);
+        }
+      });
+      paths = Array.from(changed);
+    } else {
+      problems.clear();
+      paths = Array.from(workspace.allFiles.keys());
+    }
+    for (const path of paths) {
+      const file = workspace.allFiles.get(path);
+      if (!file || !fs.existsSync(file.path)) {
+        problems.delete(path);
+        continue;
+      }
+      const result = b3util.checkTreeFile(file.path);
+      problems.set(path, { path: file.path, ...result });
+    }
+    set({ problems: new Map(problems) });
+  },
+
+  dockPanel: null,
+  showDockPanel: (panel) => {
+    set({ dockPanel: panel });
+  },
+
+  remoteRuntimes: [],
+  remoteWatching: null,
+  onRemoteEvent: ({ client, message: msg }) => {
+    const workspace = get();
+    const watching = workspace.remoteWatching;
+    const runtimes = workspace.remoteRuntimes;
+    if (msg.type === "connect") {
+      if (!runtimes.find((v) => v.client === client)) {
+        set({ remoteRuntimes: [...runtimes, { client, name: `#${client}`, agents: [] }] });
+      }
+    } else if (msg.type === "disconnect") {
+      if (watching?.client === client) {
+        workspace.unwatchRemoteAgent();
+      }
+      set({ remoteRuntimes: runtimes.filter((v) => v.client !== client) });
+    } else if (msg.type === "hello") {
+      set({
+        remoteRuntimes: runtimes.map((v) => (v.client === client ? { ...v, name: msg.name } : v)),
+      });
+    } else if (msg.type === "agents") {
+      if (watching?.client === client && !msg.agents.find((v) => v.id === watching.agent.id)) {
+        workspace.unwatchRemoteAgent();
+      }
+      set({
+        remoteRuntimes: runtimes.map((v) =>
+          v.client === client ? { ...v, agents: msg.agents } : v
+        ),
+      });
+    } else if (watching?.client === client && watching.agent.id === msg.agent) {
+      if (msg.type === "tick") {
+        workspace.find(watching.path)?.dispatch?.("remoteTick", msg);
+      } else if (msg.type === "blackboard") {
+        workspace.find(watching.path)?.dispatch?.("remoteBlackboard", msg.values);
+      }
+    }
+  },
+
+  watchRemoteAgent: (client, agent) => {
+    const workspace = get();
+    const path = remoteTreePath(workspace.workdir, agent.tree);
+    if (!fs.existsSync(path)) {
+      message.error(i18n.t("remote.treeNotFound", { tree: agent.tree }));
+      return;
+    }
+    workspace.unwatchRemoteAgent();
+    set({ remoteWatching: { client, agent, path } });
+    ipcRenderer
+      .invoke("remote-debug-send", client, { type: "watch", agent: agent.id })
+      .catch((e) => console.error(e));
+    workspace.open(path);
+  },
+
+  unwatchRemoteAgent: () => {
+    const workspace = get();
+    const watching = workspace.remoteWatching;
+    if (watching) {
+      set({ remoteWatching: null });
+      ipcRenderer
+        .invoke("remote-debug-send", watching.client, { type: "watch", agent: null })
+        .catch((e) => console.error(e));
+      workspace.find(watching.path)?.dispatch?.("remoteTick", null);
+    }
+  },
+
+  sendRemoteCommand: (type, data) => {
+    const watching = get().remoteWatching;
+    if (watching) {
+      const command = { ...data, type, agent: watching.agent.id } as RemoteCommand;
+      ipcRenderer
+        .invoke("remote-debug-send", watching.client, command)
+        .catch((e) => console.error(e));
+    }
+  },
+
+  blackboards: new Map(),
+  updateBlackboard: (path, blackboard) => {
+    const blackboards = new Map(get().blackboards);
+    if (blackboard) {
+      blackboards.set(path, blackboard);
+    } else {
+      blackboards.delete(path);
+    }
+    set({ blackboards });
+  },
+
+  comments: new Map(),
+  updateComments: (path, comments) => {
+    const map = new Map(get().comments);
+    if (comments) {
+      map.set(path, comments);
+    } else {
+      map.delete(path);
+    }
+    set({ comments: map });
+  },
+
   nodeDefs: new b3util.NodeDefs(),
   groupDefs: [],
   usingGroups: null,
   usingVars: null,
   loadNodeDefs: () => {
     const workspace = get();
-    b3util.initWorkdir(workspace.workdir, message.error.bind(message));
+    b3util.initWorkdir(workspace.workdir, message.error.bind(message), workspace.settings.nodeConf);
     set({ nodeDefs: b3util.nodeDefs, groupDefs: b3util.groupDefs });
-    workspace.editing?.dispatch?.("refresh");
+    if (b3util.nodeDefConflicts.length > 0) {
+      b3util.nodeDefConflicts.forEach((v) => {
+        console.warn(`node '${v.name}' in '${v.file}' overrides '${v.previous}'`);
+      });
+      message.warning(
+        i18n.t("nodeDef.conflicts", {
+          count: b3util.nodeDefConflicts.length,
+          names: b3util.nodeDefConflicts.map((v) => v.name).join(", "),
+        })
+      );
+    }
+    // re-validate all open trees, the editing one comes last to restore its variables
+    workspace.editors
+      .filter((v) => v !== workspace.editing)
+      .forEach((v) => v.dispatch?.("refreshNodeDefs"));
+    workspace.editing?.dispatch?.("refreshNodeDefs");
+    workspace.checkProblems();
+  },
+
+  saveNodeDef: (name, def) => {
+    const workspace = get();
+    if (name !== def.name) {
+      // keep the old name so the nodes using it can be migrated
+      const migration = getNodeMigration(def);
+      const renamedFrom = (migration?.renamedFrom ?? []).concat(name).unique();
+      def = { ...def, migrate: { ...migration, renamedFrom } } as NodeDef;
+    }
+    const file =
+      b3util.nodeDefSources[name]?.at(-1) ??
+      b3util.nodeConfigs.at(-1) ??
+      b3util.DEFAULT_NODE_CONFIG;
+    const path = `${workspace.workdir}/${file}`;
+    try {
+      const { data, cleared } = overrideNodeDef(workspace.workdir, name, def);
+      const nodeDefs = readJson(path) as NodeDef[];
+      const idx = nodeDefs.findIndex((v) => v.name === name);
+      if (idx >= 0) {
+        nodeDefs[idx] = data;
+      } else {
+        nodeDefs.push(data);
+      }
+      writeJson(path, nodeDefs);
+      if (cleared.length > 0) {
+        message.warning(i18n.t("nodeDef.inherited", { name, fields: cleared.join(", ") }));
+      }
+    } catch (e) {
+      console.error(e);
+      message.error(i18n.t("nodeDef.saveFailed", { name }));
+      return;
+    }
+    workspace.loadNodeDefs();
+    if (workspace.editingNodeDef) {
+      set({
+        editingNodeDef: {
+          data: b3util.nodeDefs.get(def.name),
+          path: name === def.name ? workspace.editingNodeDef.path : undefined,
+        },
+      });
+    }
+    if (name !== def.name) {
+      alertRenamedNodeDef(name, def.name);
+    }
   },
 
   // node edit
@@ -709,3 +1324,21 @@ export const useWorkspace = create<WorkspaceStore>((set, get) => ({
     });
   },
 }));
+
+ipcRenderer.on("remote-debug", (_, event: RemoteEvent) => {
+  useWorkspace.getState().onRemoteEvent(event);
+});
+
+ipcRenderer
+  .invoke("remote-debug-port")
+  .then((port: number) => {
+    useWorkspace.setState({ remotePort: port });
+  })
+  .catch((e) => console.error(e));
+
+ipcRenderer
+  .invoke("remote-debug-sync")
+  .then((events: RemoteEvent[]) => {
+    events.forEach((event) => useWorkspace.getState().onRemoteEvent(event));
+  })
+  .catch((e) => console.error(e));
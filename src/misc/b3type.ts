@@ -1,4 +1,5 @@
 import { NodeDef } from "../behavior3/src/behavior3";
+import { JsonSchema } from "./json-schema";
 
 export const VERSION = "1.8.1";
 
@@ -11,7 +12,71 @@ export const isStringType = (type: string) => type.startsWith("string");
 export const isBoolType = (type: string) => type.startsWith("bool");
 export const isExprType = (type: string) => type.startsWith("expr") || type.startsWith("code");
 export const isJsonType = (type: string) => type.startsWith("json");
-export const hasArgOptions = (arg: NodeArg) => arg.options !== undefined;
+export const hasArgOptions = (arg: NodeArg) =>
+  arg.options !== undefined || getNodeArgSource(arg) !== undefined;
+
+/** Options of an arg loaded from a data file in the workdir. */
+export interface NodeArgSource {
+  /** json or csv file relative to the workdir, json should be an array of objects */
+  file: string;
+  /** column of the option value */
+  key: string;
+  /** column of the option name, defaults to `key` */
+  label?: string;
+}
+
+export const getNodeArgSource = (arg: NodeArg): NodeArgSource | undefined => {
+  return (arg as NodeArg & { source?: NodeArgSource }).source;
+};
+
+/** Value rules of an arg, numbers are checked by `min`, `max` and `step`, strings by `pattern`. */
+export interface NodeArgRule {
+  min?: number;
+  max?: number;
+  /** counted from `min` or 0 */
+  step?: number;
+  /** regular expression */
+  pattern?: string;
+  /** length range of array args */
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type NodeArgRuleError = {
+  rule: keyof NodeArgRule;
+  limit: number | string;
+};
+
+export const getNodeArgRule = (arg: NodeArg) => arg as NodeArg & NodeArgRule;
+
+/** Inline JSON Schema of a `json` arg, or the path of the schema file relative to the workdir. */
+export const getNodeArgSchema = (arg: NodeArg): JsonSchema | string | undefined => {
+  return (arg as NodeArg & { schema?: JsonSchema | string }).schema;
+};
+
+/** Migration rules of a node definition, see `migrateTree`. */
+export interface NodeMigration {
+  /** old names of the node */
+  renamedFrom?: string[];
+  /** new arg names keyed by the old ones */
+  args?: Record<string, string>;
+  /** value transforms of the args, applied after renaming, array values are transformed by element */
+  values?: Record<string, { from: unknown; to: unknown }[]>;
+}
+
+export const getNodeMigration = (def: NodeDef): NodeMigration | undefined => {
+  return (def as NodeDef & { migrate?: NodeMigration }).migrate;
+};
+
+export interface NodeDeprecation {
+  message?: string;
+  /** name of the suggested node */
+  replacement?: string;
+}
+
+export const getNodeDeprecation = (def: NodeDef): NodeDeprecation | undefined => {
+  return (def as NodeDef & { deprecated?: NodeDeprecation }).deprecated;
+};
 
 export interface NodeData {
   id: string;
@@ -24,18 +89,49 @@ export interface NodeData {
   debug?: boolean;
   disabled?: boolean;
   path?: string;
+  /** annotations of the editor, not in the build output */
+  comments?: TreeComment[];
 
   // for runtime
   mtime?: number;
   size?: number[];
   status?: number;
+  collapsed?: boolean;
 }
 
 export type NodeLayout = "compact" | "normal";
 
+export interface TreeComment {
+  text: string;
+  author: string;
+  /** creation time in milliseconds */
+  time: number;
+}
+
+/** A comment floating on the canvas, positioned in canvas coordinates. */
+export interface CanvasComment extends TreeComment {
+  x: number;
+  y: number;
+}
+
+export const layoutDirections = ["LR", "TB", "RL", "mindmap"] as const;
+
+/** `mindmap` places the children of the root on both sides. */
+export type LayoutDirection = (typeof layoutDirections)[number];
+
+export interface TreeLayout {
+  direction: LayoutDirection;
+  /** gap between a node and its children */
+  levelGap: number;
+  /** gap between the sibling nodes */
+  siblingGap: number;
+}
+
 export interface VarDecl {
   name: string;
   desc: string;
+  /** checked against the type of the input and output slots, see `getSlotType` */
+  type?: string;
 }
 
 export interface GroupDecl {
@@ -65,6 +161,10 @@ export interface TreeData {
   prefix: string;
   desc?: string;
   export?: boolean;
+  /** overrides the layout of the user settings, only used by the editor */
+  layout?: Partial<TreeLayout>;
+  /** comments floating on the canvas, only used by the editor */
+  comments?: CanvasComment[];
   group: string[];
   import: string[];
   vars: VarDecl[];
@@ -0,0 +1,248 @@
+import * as fs from "fs";
+import * as os from "os";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { NodeArg, TreeData } from "./b3type";
+import {
+  checkNodeArgLength,
+  checkNodeArgRule,
+  checkTreeFile,
+  checkVarType,
+  createMigrationBatch,
+  DEFAULT_NODE_CONFIG,
+  getSlotName,
+  getSlotType,
+  initWorkdir,
+  migrateTree,
+  processBatch,
+  renameExprVar,
+} from "./b3util";
+
+describe("renameExprVar", () => {
+  it("renames the whole variable name only", () => {
+    expect(renameExprVar("hp > 0 && hp_max > hp", "hp", "health")).toBe(
+      "health > 0 && hp_max > health"
+    );
+  });
+
+  it("keeps the fields of the variable", () => {
+    expect(renameExprVar("target.pos.x + self.x", "target", "enemy")).toBe("enemy.pos.x + self.x");
+  });
+
+  it("does not rename fields with the same name", () => {
+    expect(renameExprVar("self.hp+hp", "hp", "health")).toBe("self.hp+health");
+  });
+
+  it("keeps the expression without the variable", () => {
+    const expr = "(a + b) * 2 >= c";
+    expect(renameExprVar(expr, "d", "e")).toBe(expr);
+  });
+});
+
+describe("getSlotName", () => {
+  it("strips the type and keeps the optional and variadic marks", () => {
+    expect(getSlotName("target:entity")).toBe("target");
+    expect(getSlotName("target:entity?")).toBe("target?");
+    expect(getSlotName("targets:entity...")).toBe("targets...");
+    expect(getSlotName("target?")).toBe("target?");
+  });
+});
+
+describe("getSlotType", () => {
+  it("returns the type of typed slots only", () => {
+    expect(getSlotType("target:entity")).toBe("entity");
+    expect(getSlotType("target: entity ?")).toBe("entity");
+    expect(getSlotType("targets:entity...")).toBe("entity");
+    expect(getSlotType("target?")).toBeUndefined();
+    expect(getSlotType("targets...")).toBeUndefined();
+  });
+});
+
+describe("checkVarType", () => {
+  const decl = (type?: string) => ({ name: "v", desc: "", type });
+
+  it("compares the types of the slot and the variable", () => {
+    expect(checkVarType("target:entity", decl("entity"))).toBe(true);
+    expect(checkVarType("target:entity?", decl("int"))).toBe(false);
+  });
+
+  it("accepts untyped slots and variables", () => {
+    expect(checkVarType("target", decl("int"))).toBe(true);
+    expect(checkVarType("target:entity", decl())).toBe(true);
+    expect(checkVarType("target:entity", undefined)).toBe(true);
+  });
+});
+
+describe("checkNodeArgRule", () => {
+  const createArg = (type: string, rule: object) =>
+    ({ name: "v", type, desc: "", ...rule } as NodeArg);
+
+  it("checks the range of numbers", () => {
+    const arg = createArg("float", { min: 1, max: 2 });
+    expect(checkNodeArgRule(arg, 0.5)).toEqual({ rule: "min", limit: 1 });
+    expect(checkNodeArgRule(arg, 2.5)).toEqual({ rule: "max", limit: 2 });
+    expect(checkNodeArgRule(arg, 1.5)).toBeUndefined();
+  });
+
+  it("counts the step from min with a tolerance", () => {
+    const arg = createArg("float", { min: 0.5, step: 1 });
+    expect(checkNodeArgRule(arg, 2.5)).toBeUndefined();
+    expect(checkNodeArgRule(arg, 2)).toEqual({ rule: "step", limit: 1 });
+    expect(checkNodeArgRule(createArg("float", { min: 0.1, step: 0.1 }), 0.3)).toBeUndefined();
+  });
+
+  it("skips the pattern of empty optional strings", () => {
+    const rule = { pattern: "^[a-z]+$" };
+    expect(checkNodeArgRule(createArg("string?", rule), "")).toBeUndefined();
+    expect(checkNodeArgRule(createArg("string", rule), "")).toEqual({
+      rule: "pattern",
+      limit: "^[a-z]+$",
+    });
+    expect(checkNodeArgRule(createArg("string?", rule), "A")).toEqual({
+      rule: "pattern",
+      limit: "^[a-z]+$",
+    });
+  });
+
+  it("never matches an invalid pattern", () => {
+    const arg = createArg("string", { pattern: "(" });
+    expect(checkNodeArgRule(arg, "(")).toEqual({ rule: "pattern", limit: "(" });
+  });
+});
+
+describe("checkNodeArgLength", () => {
+  it("checks the length range of arrays", () => {
+    const arg = { name: "v", type: "int[]", desc: "", minItems: 1, maxItems: 2 } as NodeArg;
+    expect(checkNodeArgLength(arg, [])).toEqual({ rule: "minItems", limit: 1 });
+    expect(checkNodeArgLength(arg, [1, 2, 3])).toEqual({ rule: "maxItems", limit: 2 });
+    expect(checkNodeArgLength(arg, [1, 2])).toBeUndefined();
+  });
+});
+
+describe("checkTreeFile", () => {
+  let workdir = "";
+
+  beforeAll(() => {
+    workdir = fs.mkdtempSync(`${os.tmpdir()}/b3-check-`);
+    fs.writeFileSync(
+      `${workdir}/${DEFAULT_NODE_CONFIG}`,
+      JSON.stringify([
+        { name: "Attack", type: "Action", input: ["target:entity", "others:entity..."] },
+      ])
+    );
+    initWorkdir(workdir, () => {});
+  });
+
+  afterAll(() => {
+    fs.rmSync(workdir, { recursive: true });
+  });
+
+  const check = (input: string[]) => {
+    const tree: TreeData = {
+      version: "1.0.0",
+      name: "test",
+      prefix: "",
+      group: [],
+      import: [],
+      vars: [
+        { name: "hp", desc: "", type: "int" },
+        { name: "enemy", desc: "", type: "entity" },
+        { name: "any", desc: "" },
+      ],
+      root: { id: "1", name: "Attack", input },
+    };
+    fs.writeFileSync(`${workdir}/test.json`, JSON.stringify(tree));
+    return checkTreeFile(`${workdir}/test.json`).problems;
+  };
+
+  it("accepts the variables of the slot type or without type", () => {
+    expect(check(["enemy", "any", "enemy"])).toEqual([]);
+  });
+
+  it("reports the type mismatches of the fixed and variadic slots", () => {
+    expect(check(["hp", "enemy", "hp"])).toEqual([
+      { id: "1", name: "Attack", msg: "input variable 'hp' type 'int' mismatches 'entity'" },
+      { id: "1", name: "Attack", msg: "input variable 'hp' type 'int' mismatches 'entity'" },
+    ]);
+  });
+});
+
+describe("migrateTree", () => {
+  let workdir = "";
+
+  beforeAll(() => {
+    workdir = fs.mkdtempSync(`${os.tmpdir()}/b3-migrate-`);
+    fs.writeFileSync(
+      `${workdir}/${DEFAULT_NODE_CONFIG}`,
+      JSON.stringify([
+        {
+          name: "Attack",
+          type: "Action",
+          migrate: {
+            renamedFrom: ["Hit"],
+            args: { dmg: "damage" },
+            values: { mode: [{ from: "fast", to: "quick" }] },
+          },
+        },
+        { name: "Sequence", type: "Composite" },
+      ])
+    );
+    initWorkdir(workdir, () => {});
+  });
+
+  afterAll(() => {
+    fs.rmSync(workdir, { recursive: true });
+  });
+
+  const createTree = (): TreeData => ({
+    version: "1.0.0",
+    name: "test",
+    prefix: "",
+    group: [],
+    import: [],
+    vars: [],
+    root: {
+      id: "1",
+      name: "Sequence",
+      children: [
+        { id: "2", name: "Hit", args: { dmg: 10, mode: ["fast", "slow"] } },
+        { id: "3", name: "Attack", args: { damage: 5, mode: "quick" } },
+        {
+          id: "4",
+          name: "Sequence",
+          path: "sub.json",
+          children: [{ id: "5", name: "Hit", args: { dmg: 1 } }],
+        },
+      ],
+    },
+  });
+
+  it("renames the nodes and args and transforms the values", () => {
+    const tree = createTree();
+    expect(migrateTree(tree, "test.json")).toEqual([
+      { id: "2", name: "Hit", message: "Hit -> Attack" },
+      { id: "2", name: "Attack", message: "args.dmg -> args.damage" },
+      { id: "2", name: "Attack", message: 'args.mode: ["fast","slow"] -> ["quick","slow"]' },
+    ]);
+    expect(tree.root.children![0]).toEqual({
+      id: "2",
+      name: "Attack",
+      args: { damage: 10, mode: ["quick", "slow"] },
+    });
+  });
+
+  it("leaves the migrated nodes and the subtrees unchanged", () => {
+    const tree = createTree();
+    migrateTree(tree, "test.json");
+    expect(tree.root.children![1]).toEqual(createTree().root.children![1]);
+    expect(tree.root.children![2]).toEqual(createTree().root.children![2]);
+    expect(migrateTree(tree, "test.json")).toEqual([]);
+  });
+
+  it("collects the changes of every processed tree", () => {
+    const changes: Parameters<typeof createMigrationBatch>[0] = [];
+    const batch = createMigrationBatch(changes);
+    processBatch(createTree(), "a.json", batch);
+    processBatch(createTree(), "b.json", batch);
+    expect(changes.length).toBe(6);
+  });
+});
@@ -4,6 +4,11 @@ import { ExpressionEvaluator, NodeDef } from "../behavior3/src/behavior3";
 import "./array";
 import {
   FileVarDecl,
+  getNodeArgRule,
+  getNodeArgSchema,
+  getNodeArgSource,
+  getNodeDeprecation,
+  getNodeMigration,
   hasArgOptions,
   ImportDecl,
   isBoolType,
@@ -13,13 +18,17 @@ import {
   isJsonType,
   isStringType,
   NodeArg,
+  NodeArgRuleError,
   NodeData,
+  NodeMigration,
   TreeData,
   VarDecl,
   VERSION,
 } from "./b3type";
+import { parseCsvRecords } from "./csv";
+import { JsonSchema, JsonSchemaError, validateJsonSchema } from "./json-schema";
 import Path from "./path";
-import { readJson, readTree, readWorkspace } from "./util";
+import { readJson, readTree, readWorkspace, writeTree } from "./util";
 
 export class NodeDefs extends Map<string, NodeDef> {
   get(key: string): NodeDef {
@@ -27,6 +36,16 @@ export class NodeDefs extends Map<string, NodeDef> {
   }
 }
 
+export type NodeDefConflict = {
+  name: string;
+  file: string;
+  previous: string;
+};
+
+type NodeArgOptions = NonNullable<NodeArg["options"]>;
+
+export const DEFAULT_NODE_CONFIG = "node-config.b3-setting";
+
 type Env = {
   fs: typeof fs;
   path: typeof Path;
@@ -45,14 +64,29 @@ export interface BatchScript {
 export let calcSize: (d: NodeData) => number[] = () => [0, 0];
 export let nodeDefs: NodeDefs = new NodeDefs();
 export let groupDefs: string[] = [];
+/** Node config files in merging order, relative to the workdir. */
+export let nodeConfigs: string[] = [];
+/** Files defining each node, a later file overrides or extends the earlier ones. */
+export let nodeDefSources: Record<string, string[]> = {};
+export let nodeDefConflicts: NodeDefConflict[] = [];
 export let usingGroups: Record<string, boolean> | null = null;
 export let usingVars: Record<string, VarDecl> | null = null;
 export const files: Record<string, number> = {};
 
 const parsedVarDecl: Record<string, ImportDecl> = {};
+/** Loaded schema files of json args, `null` if the file is invalid. */
+let argSchemas: Record<string, JsonSchema | null> = {};
+/** Loaded option sources of args, `null` if the file is invalid. */
+let argSources: Record<string, Record<string, unknown>[] | null> = {};
+let argSourceOptions: WeakMap<NodeArg, NodeArgOptions> = new WeakMap();
+/** Schema and options source files declared by the args. */
+let argDataFiles: Set<string> = new Set();
+/** Compiled `pattern` rules of args, `null` if the pattern is invalid. */
+let argPatterns: Record<string, RegExp | null> = {};
 const parsedExprs: Record<string, string[]> = {};
 let checkExpr: boolean = false;
 let workdir: string = "";
+let nodeConfigDirs: string[] = [];
 let alertError: (msg: string, duration?: number) => void = () => {};
 
 const unknownNodeDef: NodeDef = {
@@ -61,19 +95,181 @@ const unknownNodeDef: NodeDef = {
   type: "Action",
 };
 
-export const initWorkdir = (path: string, handler: typeof alertError) => {
+const compileArgPattern = (pattern: string) => {
+  if (argPatterns[pattern] === undefined) {
+    try {
+      argPatterns[pattern] = new RegExp(pattern);
+    } catch (e) {
+      argPatterns[pattern] = null;
+    }
+  }
+  return argPatterns[pattern];
+};
+
+/**
+ * `nodeConf` lists the node config files or directories of the workspace, a directory
+ * includes all the `.b3-setting` files inside it.
+ */
+export const initWorkdir = (path: string, handler: typeof alertError, nodeConf?: string[]) => {
   workdir = path;
   alertError = handler;
-  const nodeDefData = readJson(`${workdir}/node-config.b3-setting`) as NodeDef[];
-  const groups: Set<string> = new Set();
+  nodeConfigs = [];
+  nodeConfigDirs = [];
+  for (const entry of nodeConf?.length ? nodeConf : [DEFAULT_NODE_CONFIG]) {
+    const fullpath = Path.posixPath(Path.resolve(workdir, entry));
+    if (fs.existsSync(fullpath) && fs.statSync(fullpath).isDirectory()) {
+      nodeConfigDirs.push(Path.posixPath(Path.relative(workdir, fullpath)));
+      Path.ls(fullpath, true)
+        .filter((v) => v.endsWith(".b3-setting"))
+        .forEach((v) => nodeConfigs.push(Path.posixPath(Path.relative(workdir, v))));
+    } else {
+      nodeConfigs.push(Path.posixPath(Path.relative(workdir, fullpath)));
+    }
+  }
+  nodeConfigs = nodeConfigs.unique();
+
   nodeDefs = new NodeDefs();
-  for (const v of nodeDefData) {
-    nodeDefs.set(v.name, v);
-    v.group?.forEach((g) => groups.add(g));
+  nodeDefSources = {};
+  argSchemas = {};
+  argSources = {};
+  argSourceOptions = new WeakMap();
+  argPatterns = {};
+  argDataFiles = new Set();
+  nodeDefConflicts = [];
+  for (const file of nodeConfigs) {
+    let nodeDefData: NodeDef[];
+    try {
+      nodeDefData = readJson(`${workdir}/${file}`) as NodeDef[];
+    } catch (e) {
+      console.error(e);
+      alertError(`invalid node config: ${file}`);
+      continue;
+    }
+    for (const v of nodeDefData) {
+      const sources = nodeDefSources[v.name];
+      if (sources) {
+        nodeDefConflicts.push({ name: v.name, file, previous: sources.at(-1)! });
+        nodeDefs.set(v.name, { ...nodeDefs.get(v.name), ...v });
+        sources.push(file);
+      } else {
+        nodeDefs.set(v.name, v);
+        nodeDefSources[v.name] = [file];
+      }
+    }
   }
+
+  nodeDefs.forEach((def) => {
+    def.args?.forEach((arg: NodeArg) => {
+      const pattern = getNodeArgRule(arg).pattern;
+      if (pattern !== undefined && compileArgPattern(pattern) === null) {
+        alertError(`invalid pattern of '${def.name}.${arg.name}': ${pattern}`);
+      }
+      const schema = getNodeArgSchema(arg);
+      if (typeof schema === "string") {
+        argDataFiles.add(Path.posixPath(schema));
+      }
+      const source = getNodeArgSource(arg);
+      if (source) {
+        argDataFiles.add(Path.posixPath(source.file));
+      }
+    });
+  });
+
+  const groups: Set<string> = new Set();
+  nodeDefs.forEach((v) => v.group?.forEach((g: string) => groups.add(g)));
   groupDefs = Array.from(groups).sort();
 };
 
+/** Returns the JSON Schema of the arg, a schema file is loaded once until the node defs reload. */
+export const resolveNodeArgSchema = (arg: NodeArg) => {
+  const schema = getNodeArgSchema(arg);
+  if (typeof schema !== "string") {
+    return schema;
+  }
+  const path = Path.posixPath(schema);
+  if (argSchemas[path] === undefined) {
+    try {
+      argSchemas[path] = readJson(`${workdir}/${path}`) as JsonSchema;
+    } catch (e) {
+      console.error(e);
+      alertError(`invalid json schema: ${path}`);
+      argSchemas[path] = null;
+    }
+  }
+  return argSchemas[path] ?? undefined;
+};
+
+/** Checks a parsed json value against the schema of the arg. */
+export const checkNodeArgSchema = (arg: NodeArg, value: unknown): JsonSchemaError[] => {
+  const schema = resolveNodeArgSchema(arg);
+  if (!schema || value === undefined) {
+    return [];
+  }
+  return validateJsonSchema(schema, value);
+};
+
+const loadArgSource = (file: string) => {
+  const path = Path.posixPath(file);
+  if (argSources[path] === undefined) {
+    try {
+      if (path.toLowerCase().endsWith(".csv")) {
+        argSources[path] = parseCsvRecords(fs.readFileSync(`${workdir}/${path}`, "utf-8"));
+      } else {
+        const data = readJson(`${workdir}/${path}`) as object;
+        argSources[path] = (Array.isArray(data) ? data : Object.values(data)).filter(
+          (v) => v && typeof v === "object"
+        );
+      }
+    } catch (e) {
+      console.error(e);
+      alertError(`invalid options source: ${path}`);
+      argSources[path] = null;
+    }
+  }
+  return argSources[path];
+};
+
+/**
+ * Returns the options of the arg, either declared in the node config or loaded from the
+ * source file. Csv values are converted to numbers for number args.
+ */
+export const resolveNodeArgOptions = (arg: NodeArg): NodeArgOptions => {
+  const source = getNodeArgSource(arg);
+  if (!source) {
+    return arg.options ?? [];
+  }
+  let options = argSourceOptions.get(arg);
+  if (!options) {
+    const type = getNodeArgRawType(arg);
+    const isNumber = isIntType(type) || isFloatType(type);
+    options = (loadArgSource(source.file) ?? [])
+      .filter((row) => row[source.key] !== undefined && row[source.key] !== "")
+      .map((row) => {
+        const value = row[source.key];
+        return {
+          name: String(row[source.label ?? source.key] ?? ""),
+          value: isNumber && typeof value === "string" ? Number(value) : value,
+        };
+      });
+    argSourceOptions.set(arg, options);
+  }
+  return options;
+};
+
+/** Whether the file is a schema or options source declared by the args, loaded or not. */
+export const isArgDataFile = (path: string) => {
+  return argDataFiles.has(Path.posixPath(path));
+};
+
+export const isNodeConfig = (path: string) => {
+  path = Path.posixPath(path);
+  return (
+    nodeConfigs.includes(path) ||
+    (path.endsWith(".b3-setting") &&
+      nodeConfigDirs.some((dir) => dir === "." || path.startsWith(`${dir}/`)))
+  );
+};
+
 export const setSizeCalculator = (calc: (d: NodeData) => number[]) => {
   calcSize = calc;
 };
@@ -110,6 +306,17 @@ export const parseExpr = (expr: string) => {
   return result;
 };
 
+/** Replaces the variable `from` with `to`, using the same tokens as `parseExpr`. */
+export const renameExprVar = (expr: string, from: string, to: string) => {
+  return expr
+    .split(/([^a-zA-Z0-9_.])/)
+    .map((token) => {
+      const [name, ...fields] = token.split(".");
+      return name === from ? [to, ...fields].join(".") : token;
+    })
+    .join("");
+};
+
 export const dfs = <T extends { children?: T[] }>(
   node: T,
   visitor: (node: T, depth: number) => unknown,
@@ -187,8 +394,30 @@ export const isNodeEqual = (node1: NodeData, node2: NodeData) => {
   return false;
 };
 
+export type CheckProblem = {
+  id: string;
+  name: string;
+  msg: string;
+  /** warnings do not fail the check */
+  warning?: boolean;
+};
+
+let checkProblems: CheckProblem[] | null = null;
+
 const error = (data: NodeData, msg: string) => {
-  console.error(`check ${data.id}|${data.name}: ${msg}`);
+  if (checkProblems) {
+    checkProblems.push({ id: data.id, name: data.name, msg });
+  } else {
+    console.error(`check ${data.id}|${data.name}: ${msg}`);
+  }
+};
+
+const warn = (data: NodeData, msg: string) => {
+  if (checkProblems) {
+    checkProblems.push({ id: data.id, name: data.name, msg, warning: true });
+  } else {
+    console.warn(`check ${data.id}|${data.name}: ${msg}`);
+  }
 };
 
 export const getNodeArgRawType = (arg: NodeArg) => {
@@ -203,6 +432,84 @@ export const isNodeArgOptional = (arg: NodeArg) => {
   return arg.type.includes("?");
 };
 
+/**
+ * Input and output slots are declared as `name[:type][?|...]`, e.g. `target:entity?`.
+ */
+export const getSlotName = (slot: string) => {
+  return slot.replace(/:[^?.]*/, "");
+};
+
+export const getSlotType = (slot: string) => {
+  return slot.match(/:([^?.]+)/)?.[1].trim() || undefined;
+};
+
+/** The type is checked only when both the slot and the variable declare one. */
+export const checkVarType = (slot: string, decl: VarDecl | undefined) => {
+  const type = getSlotType(slot);
+  return !type || !decl?.type || decl.type === type;
+};
+
+/**
+ * Checks the value against the rules of the arg, the value should be of the arg type.
+ * An empty string of an optional arg is not set, an invalid pattern never matches.
+ */
+export const checkNodeArgRule = (arg: NodeArg, value: unknown): NodeArgRuleError | undefined => {
+  const rule = getNodeArgRule(arg);
+  if (typeof value === "number") {
+    if (rule.min !== undefined && value < rule.min) {
+      return { rule: "min", limit: rule.min };
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      return { rule: "max", limit: rule.max };
+    }
+    if (rule.step) {
+      const n = (value - (rule.min ?? 0)) / rule.step;
+      if (Math.abs(n - Math.round(n)) > 1e-9) {
+        return { rule: "step", limit: rule.step };
+      }
+    }
+  } else if (typeof value === "string" && rule.pattern !== undefined) {
+    if (!isStringType(getNodeArgRawType(arg)) || (value === "" && isNodeArgOptional(arg))) {
+      return undefined;
+    }
+    if (!compileArgPattern(rule.pattern)?.test(value)) {
+      return { rule: "pattern", limit: rule.pattern };
+    }
+  }
+  return undefined;
+};
+
+export const checkNodeArgLength = (
+  arg: NodeArg,
+  value: unknown[]
+): NodeArgRuleError | undefined => {
+  const rule = getNodeArgRule(arg);
+  if (rule.minItems !== undefined && value.length < rule.minItems) {
+    return { rule: "minItems", limit: rule.minItems };
+  }
+  if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+    return { rule: "maxItems", limit: rule.maxItems };
+  }
+  return undefined;
+};
+
+const formatArgRuleError = (e: NodeArgRuleError) => {
+  switch (e.rule) {
+    case "min":
+      return `should be greater than or equal to ${e.limit}`;
+    case "max":
+      return `should be less than or equal to ${e.limit}`;
+    case "step":
+      return `should be a multiple of ${e.limit}`;
+    case "pattern":
+      return `should match the pattern '${e.limit}'`;
+    case "minItems":
+      return `should have at least ${e.limit} items`;
+    case "maxItems":
+      return `should have at most ${e.limit} items`;
+  }
+};
+
 export const checkNodeArgValue = (
   data: NodeData,
   arg: NodeArg,
@@ -255,6 +562,13 @@ export const checkNodeArgValue = (
         error(data, `'${arg.name}=${value}' is not an invalid object`);
       }
       hasError = true;
+    } else if (typeof value !== "string") {
+      for (const e of checkNodeArgSchema(arg, value)) {
+        if (verbose) {
+          error(data, `'${arg.name}' ${e.path} ${e.message}`);
+        }
+        hasError = true;
+      }
     }
   } else if (isBoolType(type)) {
     const isBool = typeof value === "boolean" || value === undefined;
@@ -269,12 +583,28 @@ export const checkNodeArgValue = (
     error(data, `unknown arg type '${arg.type}'`);
   }
 
-  if (hasArgOptions(arg)) {
-    const found = !!arg.options?.find((option) => option.value === value);
+  const ruleError = hasError ? undefined : checkNodeArgRule(arg, value);
+  if (ruleError) {
+    if (verbose) {
+      error(data, `'${arg.name}=${JSON.stringify(value)}' ${formatArgRuleError(ruleError)}`);
+    }
+    hasError = true;
+  }
+
+  const source = getNodeArgSource(arg);
+  if (source && loadArgSource(source.file) === null) {
+    // the invalid source file has been reported when loading
+  } else if (hasArgOptions(arg)) {
+    const found = !!resolveNodeArgOptions(arg).find((option) => option.value === value);
     const isOptional = value === undefined && isNodeArgOptional(arg);
     if (!(found || isOptional)) {
       if (verbose) {
-        error(data, `'${arg.name}=${JSON.stringify(value)}' is not a one of the option values`);
+        error(
+          data,
+          source
+            ? `'${arg.name}=${JSON.stringify(value)}' is not found in '${source.file}'`
+            : `'${arg.name}=${JSON.stringify(value)}' is not a one of the option values`
+        );
       }
       hasError = true;
     }
@@ -301,6 +631,13 @@ export const checkNodeArg = (data: NodeData, conf: NodeDef, i: number, verbose?:
           hasError = true;
         }
       }
+      const lengthError = checkNodeArgLength(arg, value);
+      if (lengthError) {
+        if (verbose) {
+          error(data, `'${arg.name}' ${formatArgRuleError(lengthError)}`);
+        }
+        hasError = true;
+      }
     }
   } else if (!checkNodeArgValue(data, arg, value, verbose)) {
     hasError = true;
@@ -344,6 +681,18 @@ export const checkNodeData = (data: NodeData | null | undefined) => {
 
   let hasError = false;
 
+  const deprecation = getNodeDeprecation(conf);
+  if (deprecation) {
+    let msg = `deprecated node: ${data.name}`;
+    if (deprecation.message) {
+      msg += `, ${deprecation.message}`;
+    }
+    if (deprecation.replacement) {
+      msg += `, use '${deprecation.replacement}' instead`;
+    }
+    warn(data, msg);
+  }
+
   if (conf.group) {
     if (!conf.group.some((g) => usingGroups?.[g])) {
       error(data, `node group '${conf.group}' is not enabled`);
@@ -352,22 +701,32 @@ export const checkNodeData = (data: NodeData | null | undefined) => {
   }
 
   if (usingVars) {
-    if (data.input) {
-      for (const v of data.input) {
-        if (v && !usingVars[v]) {
-          error(data, `input variable '${v}' is not defined`);
-          hasError = true;
-        }
+    data.input?.forEach((v, i) => {
+      const slot = getSlotDef(conf.input, i);
+      if (v && !usingVars![v]) {
+        error(data, `input variable '${v}' is not defined`);
+        hasError = true;
+      } else if (v && slot && !checkVarType(slot, usingVars![v])) {
+        error(
+          data,
+          `input variable '${v}' type '${usingVars![v].type}' mismatches '${getSlotType(slot)}'`
+        );
+        hasError = true;
       }
-    }
-    if (data.output) {
-      for (const v of data.output) {
-        if (v && !usingVars[v]) {
-          error(data, `output variable '${v}' is not defined`);
-          hasError = true;
-        }
+    });
+    data.output?.forEach((v, i) => {
+      const slot = getSlotDef(conf.output, i);
+      if (v && !usingVars![v]) {
+        error(data, `output variable '${v}' is not defined`);
+        hasError = true;
+      } else if (v && slot && !checkVarType(slot, usingVars![v])) {
+        error(
+          data,
+          `output variable '${v}' type '${usingVars![v].type}' mismatches '${getSlotType(slot)}'`
+        );
+        hasError = true;
       }
-    }
+    });
   }
 
   if (data.args && conf.args) {
@@ -547,6 +906,9 @@ export const createNode = (data: NodeData, includeChildren: boolean = true) => {
       }
     }
   }
+  if (data.comments?.length) {
+    node.comments = data.comments.map((v) => ({ ...v }));
+  }
   if (data.children && !isSubtreeRoot(data) && includeChildren) {
     node.children = [];
     for (const child of data.children) {
@@ -659,6 +1021,63 @@ export const isVariadic = (def: string[], i: number) => {
   return def[i].endsWith("...") && i === def.length - 1;
 };
 
+const mapSlots = (from: string[] | undefined, to: string[] | undefined, values?: string[]) => {
+  if (!to?.length) {
+    return undefined;
+  }
+  const key = (slot: string) => getSlotName(slot).replace(/\?|\.\.\./g, "");
+  const result: string[] = [];
+  to.forEach((slot, i) => {
+    const j = from?.findIndex((v) => key(v) === key(slot)) ?? -1;
+    if (j >= 0 && isVariadic(from!, j) && isVariadic(to, i)) {
+      result.push(...(values?.slice(j) ?? []));
+    } else {
+      result.push(j >= 0 ? values?.[j] ?? "" : "");
+    }
+  });
+  return result;
+};
+
+/**
+ * Converts the node to `def`, the args and the slots are matched by name, the args not valid
+ * for `def` are dropped. Returns null if the node has more children than `def` allows.
+ */
+export const mapNodeToDef = (node: NodeData, def: NodeDef): NodeData | null => {
+  const conf = nodeDefs.get(node.name);
+  if (def.children !== undefined && def.children !== -1) {
+    if ((node.children?.length ?? 0) > def.children) {
+      return null;
+    }
+  }
+  let args: NodeData["args"];
+  def.args?.forEach((arg: NodeArg) => {
+    const value = node.args?.[arg.name];
+    const isValid = isNodeArgArray(arg)
+      ? Array.isArray(value) && value.every((v) => checkNodeArgValue(node, arg, v))
+      : value !== undefined && !Array.isArray(value) && checkNodeArgValue(node, arg, value);
+    if (isValid) {
+      args ??= {};
+      args[arg.name] = value;
+    }
+  });
+  return {
+    ...node,
+    name: def.name,
+    args,
+    children: def.children === 0 ? undefined : node.children,
+    input: mapSlots(conf.input, def.input, node.input),
+    output: mapSlots(conf.output, def.output, node.output),
+  };
+};
+
+/** Returns the slot of the `i`th input or output, the variadic slot takes the rest. */
+const getSlotDef = (def: string[] | undefined, i: number) => {
+  if (def?.length && i >= def.length && isVariadic(def, -1)) {
+    return def[def.length - 1];
+  }
+  return def?.[i];
+};
+
 const isValidInputOrOutput = (def: string[], data: string[] | undefined, index: number) => {
   return def[index].includes("?") || data?.[index] || isVariadic(def, index);
 };
@@ -759,6 +1178,8 @@ export const createBuildData = (path: string) => {
     dfs(treeModel.root, (node) => (node.id = treeModel.prefix + node.id));
     treeModel.name = Path.basenameWithoutExt(path);
     treeModel.root = createFileData(treeModel.root, true);
+    delete treeModel.layout;
+    delete treeModel.comments;
     return treeModel as TreeData;
   } catch (e) {
     console.log("build error:", path, e);
@@ -795,6 +1216,110 @@ export const processBatch = (tree: TreeData | null, path: string, batch: BatchSc
   return tree;
 };
 
+export type MigrationChange = {
+  id: string;
+  name: string;
+  message: string;
+};
+
+const migrateNode = (node: NodeData, migration: NodeMigration, changes: MigrationChange[]) => {
+  const change = (message: string) => changes.push({ id: node.id, name: node.name, message });
+  for (const from in migration.args) {
+    const to = migration.args[from];
+    if (node.args && from in node.args && !(to in node.args)) {
+      const args: NodeData["args"] = {};
+      for (const name in node.args) {
+        args[name === from ? to : name] = node.args[name];
+      }
+      node.args = args;
+      change(`args.${from} -> args.${to}`);
+    }
+  }
+  for (const name in migration.values) {
+    const value = node.args?.[name];
+    if (value === undefined) {
+      continue;
+    }
+    const transform = (v: unknown) => {
+      const str = JSON.stringify(v);
+      const rule = migration.values![name].find((r) => JSON.stringify(r.from) === str);
+      return rule ? rule.to : v;
+    };
+    const newValue = Array.isArray(value) ? value.map(transform) : transform(value);
+    if (JSON.stringify(newValue) !== JSON.stringify(value)) {
+      node.args = { ...node.args, [name]: newValue };
+      change(`args.${name}: ${JSON.stringify(value)} -> ${JSON.stringify(newValue)}`);
+    }
+  }
+};
+
+/**
+ * Creates a batch rewriting the nodes with the migration rules of the node definitions,
+ * the nodes inside subtrees are left to their own files.
+ */
+export const createMigrationBatch = (changes: MigrationChange[]): BatchScript => {
+  const renamed: Record<string, NodeDef> = {};
+  nodeDefs.forEach((def) => {
+    getNodeMigration(def)?.renamedFrom?.forEach((name) => {
+      if (!nodeDefs.has(name)) {
+        renamed[name] = def;
+      }
+    });
+  });
+  let ownNodes: Set<NodeData> = new Set();
+  return {
+    onProcessTree(tree) {
+      ownNodes = new Set();
+      dfsOwnNodes(tree.root, (node) => ownNodes.add(node));
+      return tree;
+    },
+    onProcessNode(node) {
+      const def = nodeDefs.has(node.name) ? nodeDefs.get(node.name) : renamed[node.name];
+      const migration = def && getNodeMigration(def);
+      if (!ownNodes.has(node) || !migration) {
+        return node;
+      }
+      if (node.name !== def.name) {
+        changes.push({ id: node.id, name: node.name, message: `${node.name} -> ${def.name}` });
+        node.name = def.name;
+      }
+      migrateNode(node, migration, changes);
+      return node;
+    },
+  };
+};
+
+/** Migrates the tree in place, returns the changes. */
+export const migrateTree = (tree: TreeData, path: string) => {
+  const changes: MigrationChange[] = [];
+  processBatch(tree, path, createMigrationBatch(changes));
+  return changes;
+};
+
+export const migrateProject = (project: string) => {
+  let count = 0;
+  for (const path of Path.ls(Path.dirname(project), true)) {
+    if (!isTreeFile(path)) {
+      continue;
+    }
+    let tree: TreeData;
+    try {
+      tree = readTree(path);
+    } catch (e) {
+      console.error("invalid file:", path);
+      continue;
+    }
+    const changes = migrateTree(tree, path);
+    if (changes.length > 0) {
+      console.log("migrate:", path);
+      changes.forEach((v) => console.log(`  ${tree.prefix}${v.id} ${v.name}: ${v.message}`));
+      writeTree(path, tree);
+      count++;
+    }
+  }
+  return count;
+};
+
 export const buildProject = async (project: string, buildDir: string) => {
   let hasError = false;
   const settings = readWorkspace(project).settings;
@@ -820,7 +1345,7 @@ export const buildProject = async (project: string, buildDir: string) => {
   }
 
   for (const path of Path.ls(Path.dirname(project), true)) {
-    if (path.endsWith(".json")) {
+    if (isTreeFile(path)) {
       const buildpath = buildDir + "/" + path.substring(workdir.length + 1);
       let tree = createBuildData(path);
       if (buildScript) {
@@ -836,7 +1361,7 @@ export const buildProject = async (project: string, buildDir: string) => {
       console.log("build:", buildpath);
       const declare: FileVarDecl = {
         import: tree.import.map((v) => ({ path: v, vars: [], depends: [] })),
-        vars: tree.vars.map((v) => ({ name: v.name, desc: v.desc })),
+        vars: tree.vars.map((v) => ({ name: v.name, desc: v.desc, type: v.type })),
         subtree: [],
       };
       refreshVarDecl(tree.root, tree.group, declare);
@@ -852,6 +1377,124 @@ export const buildProject = async (project: string, buildDir: string) => {
   return hasError;
 };
 
+/**
+ * Run the same checks as `buildProject` on a tree file without touching the editing state.
+ * Returns the collected problems and the files (imports and subtrees) the tree depends on.
+ */
+export const checkTreeFile = (path: string) => {
+  const problems: CheckProblem[] = [];
+  const depends: Set<string> = new Set();
+  let prefix = "";
+  const lastAlertError = alertError;
+  const lastUsingGroups = usingGroups;
+  const lastUsingVars = usingVars;
+  checkProblems = problems;
+  alertError = (msg) => problems.push({ id: "", name: "", msg });
+  try {
+    const tree = readTree(path);
+    prefix = tree.prefix ?? "";
+    refreshNodeData(tree.root, 1);
+    const declare: FileVarDecl = {
+      import: tree.import.map((v) => ({ path: v, vars: [], depends: [] })),
+      vars: tree.vars.map((v) => ({ name: v.name, desc: v.desc, type: v.type })),
+      subtree: [],
+    };
+    refreshVarDecl(tree.root, tree.group, declare);
+    [...declare.import, ...declare.subtree].forEach((entry) => {
+      depends.add(entry.path);
+      entry.depends.forEach((v) => depends.add(v.path));
+    });
+    checkNodeData(tree.root);
+  } catch (e) {
+    problems.push({ id: "", name: "", msg: `parsing error: ${e}` });
+  } finally {
+    checkProblems = null;
+    alertError = lastAlertError;
+    usingGroups = lastUsingGroups;
+    usingVars = lastUsingVars;
+  }
+  return { problems, prefix, depends: Array.from(depends) };
+};
+
+export type VarUsage = {
+  /** declared by the `vars` of the tree */
+  declared: boolean;
+  /** nodes using the variable in input, output or expr args, subtree nodes are excluded */
+  nodes: NodeData[];
+};
+
+const getExprArgs = (node: NodeData) => {
+  const exprs: Record<string, string | string[]> = {};
+  nodeDefs.get(node.name).args?.forEach((arg) => {
+    const value = node.args?.[arg.name] as string | string[] | undefined;
+    if (isExprType(arg.type) && value) {
+      exprs[arg.name] = value;
+    }
+  });
+  return exprs;
+};
+
+const isVarUsed = (node: NodeData, name: string) => {
+  if (node.input?.includes(name) || node.output?.includes(name)) {
+    return true;
+  }
+  return Object.values(getExprArgs(node)).some((value) => {
+    const exprs = Array.isArray(value) ? value : [value];
+    return exprs.some((expr) => parseExpr(expr).includes(name));
+  });
+};
+
+/** Visits the nodes owned by the tree file, the nodes loaded from subtrees are skipped. */
+export const dfsOwnNodes = (root: NodeData, visitor: (node: NodeData) => void) => {
+  const traverse = (node: NodeData) => {
+    if (isSubtreeRoot(node)) {
+      return;
+    }
+    visitor(node);
+    node.children?.forEach(traverse);
+  };
+  traverse(root);
+};
+
+export const findVarUsage = (tree: TreeData, name: string): VarUsage => {
+  const nodes: NodeData[] = [];
+  dfsOwnNodes(tree.root, (node) => {
+    if (isVarUsed(node, name)) {
+      nodes.push(node);
+    }
+  });
+  return { declared: tree.vars.some((v) => v.name === name), nodes };
+};
+
+/**
+ * Renames the variable in the declaration and the nodes of the tree.
+ * The changed fields are replaced rather than modified in place.
+ */
+export const renameTreeVar = (tree: TreeData, from: string, to: string) => {
+  const usage = findVarUsage(tree, from);
+  if (usage.declared) {
+    tree.vars = tree.vars
+      .map((v) => (v.name === from ? { ...v, name: to } : v))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const rename = (v: string) => (v === from ? to : v);
+  for (const node of usage.nodes) {
+    node.input = node.input?.map(rename);
+    node.output = node.output?.map(rename);
+    const exprs = getExprArgs(node);
+    for (const key in exprs) {
+      const value = exprs[key];
+      node.args = {
+        ...node.args,
+        [key]: Array.isArray(value)
+          ? value.map((v) => renameExprVar(v, from, to))
+          : renameExprVar(value, from, to),
+      };
+    }
+  }
+  return usage.declared || usage.nodes.length > 0;
+};
+
 export const loadModule = async (path: string) => {
   try {
     if (typeof require !== "undefined" && require.cache) {
@@ -912,8 +1555,36 @@ export const createNewTree = (path: string) => {
   return tree;
 };
 
+/** Whether each json file has a root node, cached by the modified time. */
+const treeFileCache: Record<string, { mtime: number; isTree: boolean }> = {};
+
+/**
+ * Tree files are the json files with a root node, so the json data files of the args are left
+ * out. A file failing to parse is still a tree file and reported as a broken one.
+ */
 export const isTreeFile = (path: string) => {
-  return path.toLocaleLowerCase().endsWith(".json");
+  if (!path.toLocaleLowerCase().endsWith(".json")) {
+    return false;
+  }
+  const fullpath = Path.posixPath(Path.resolve(workdir, path));
+  if (isArgDataFile(Path.relative(workdir, fullpath))) {
+    return false;
+  }
+  if (!fs.existsSync(fullpath)) {
+    return true;
+  }
+  const mtime = fs.statSync(fullpath).mtimeMs;
+  if (treeFileCache[fullpath]?.mtime !== mtime) {
+    let isTree = true;
+    try {
+      const data = readJson<Record<string, unknown>>(fullpath);
+      isTree = !!data && typeof data === "object" && !Array.isArray(data) && "root" in data;
+    } catch (e) {
+      // broken tree file
+    }
+    treeFileCache[fullpath] = { mtime, isTree };
+  }
+  return treeFileCache[fullpath].isTree;
 };
 
 const loadVarDecl = (list: ImportDecl[], arr: Array<VarDecl>) => {
@@ -973,7 +1644,7 @@ const loadVarDecl = (list: ImportDecl[], arr: Array<VarDecl>) => {
     entry.depends = Array.from(depends).map((v) => ({ path: v, modified: files[v] }));
     parsedVarDecl[entry.path] = {
       path: entry.path,
-      vars: entry.vars.map((v) => ({ name: v.name, desc: v.desc })),
+      vars: entry.vars.map((v) => ({ name: v.name, desc: v.desc, type: v.type })),
       depends: entry.depends.slice(),
       modified: entry.modified,
     };
@@ -1026,7 +1697,10 @@ export const refreshVarDecl = (root: NodeData, group: string[], declare: FileVar
 
   const lastVars = Array.from(Object.keys(usingVars ?? {})).sort();
   vars.sort((a, b) => a.name.localeCompare(b.name));
-  if (lastVars.length !== vars.length || lastVars.some((v, i) => v !== vars[i].name)) {
+  if (
+    lastVars.length !== vars.length ||
+    lastVars.some((v, i) => v !== vars[i].name || usingVars?.[v].type !== vars[i].type)
+  ) {
     changed = true;
     console.debug("refresh vars:", lastVars, vars);
     updateUsingVars(vars);
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits the rows and cells", () => {
+    expect(parseCsv("a,b,c\r\n1,,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "", "3"],
+    ]);
+  });
+
+  it("keeps commas, quotes and newlines in quoted cells", () => {
+    expect(parseCsv('name,desc\n"x,y","say ""hi""\nnext line"')).toEqual([
+      ["name", "desc"],
+      ["x,y", 'say "hi"\nnext line'],
+    ]);
+  });
+
+  it("skips empty rows", () => {
+    expect(parseCsv("a\n\n,\r\nb")).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("parseCsvRecords", () => {
+  it("keys the values by the trimmed header", () => {
+    expect(parseCsvRecords("\uFEFFid, name\n1,sword\n2")).toEqual([
+      { id: "1", name: "sword" },
+      { id: "2", name: "" },
+    ]);
+  });
+
+  it("returns no records for empty text", () => {
+    expect(parseCsvRecords("")).toEqual([]);
+  });
+});
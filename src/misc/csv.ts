@@ -0,0 +1,50 @@
+/** Parses csv text into rows of cells, quoted cells may contain commas, quotes and newlines. */
+export const parseCsv = (str: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < str.length; i++) {
+    const c = str[i];
+    if (quoted) {
+      if (c === '"' && str[i + 1] === '"') {
+        cell += c;
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && str[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((v) => v.some((s) => s !== ""));
+};
+
+/** Converts csv text into objects keyed by the header row. */
+export const parseCsvRecords = (str: string) => {
+  const [header, ...rows] = parseCsv(str.replace(/^\uFEFF/, ""));
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    header?.forEach((name, i) => (record[name.trim()] = row[i] ?? ""));
+    return record;
+  });
+};
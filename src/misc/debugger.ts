@@ -0,0 +1,91 @@
+import { RunStatus, TickEvent } from "./simulator";
+
+/**
+ * Steps through the nodes ticked during one tick, pausing on breakpoints.
+ * Events are replayed in entering order after the whole tick has run, so any runtime able to
+ * report them can be debugged. The blackboard at the paused node is only known when the runtime
+ * records it with the event, otherwise the values at the end of the tick are shown.
+ */
+export class TickDebugger {
+  events: TickEvent[] = [];
+
+  /** index of the paused event, -1 before the tick and `events.length` once finished */
+  cursor: number = -1;
+
+  constructor(
+    readonly isBreakpoint: (id: string) => boolean,
+    readonly isSubtree: (id: string) => boolean
+  ) {}
+
+  load(events: TickEvent[]) {
+    this.events = events;
+    this.cursor = -1;
+  }
+
+  get paused(): TickEvent | undefined {
+    return this.events[this.cursor];
+  }
+
+  /** blackboard values when the paused node is entered, if recorded by the runtime */
+  get blackboard() {
+    return this.paused?.blackboard;
+  }
+
+  /** ids of the running nodes from the root to the paused node */
+  get callStack() {
+    const paused = this.paused;
+    return paused ? [...paused.stack, paused.id] : [];
+  }
+
+  /** statuses of the nodes that have returned before the paused node is entered */
+  get statuses() {
+    const statuses: Record<string, RunStatus> = {};
+    const end = Math.min(this.cursor, this.events.length);
+    for (let i = 0; i < end; i++) {
+      const event = this.events[i];
+      if (event.status) {
+        statuses[event.id] = event.status;
+      }
+    }
+    this.paused?.stack.forEach((id) => delete statuses[id]);
+    return statuses;
+  }
+
+  /** Runs to the end of the tick, ignoring breakpoints. */
+  finish() {
+    this.cursor = this.events.length;
+  }
+
+  /** Pauses on the next breakpoint, returns false if the tick is finished. */
+  resume() {
+    return this._pauseAt((event) => this.isBreakpoint(event.id));
+  }
+
+  /** Pauses on the next node, without stopping inside the subtrees entered meanwhile. */
+  stepOver() {
+    const depth = this._subtreeDepth(this.paused);
+    return this._pauseAt((event) => {
+      return this._subtreeDepth(event) <= depth || this.isBreakpoint(event.id);
+    });
+  }
+
+  /** Pauses on the next node, including the nodes inside subtrees. */
+  stepInto() {
+    return this._pauseAt(() => true);
+  }
+
+  private _subtreeDepth(event: TickEvent | undefined) {
+    return event?.stack.filter((id) => this.isSubtree(id)).length ?? 0;
+  }
+
+  private _pauseAt(match: (event: TickEvent) => boolean) {
+    for (let i = this.cursor + 1; i < this.events.length; i++) {
+      if (match(this.events[i])) {
+        this.cursor = i;
+        return true;
+      }
+    }
+    this.cursor = this.events.length;
+    return false;
+  }
+}
@@ -0,0 +1,329 @@
+import { DisplayObject } from "@antv/g-lite";
+
+export type ImageFormat = "svg" | "png";
+export type ImageTheme = "dark" | "light";
+
+export const imageBackgrounds: Record<ImageTheme, string> = {
+  dark: "#0d1117",
+  light: "#ffffff",
+};
+
+/** Margin around the graph in the exported image. */
+const PADDING = 20;
+
+type Attributes = Record<string, unknown>;
+
+const escapeXml = (str: string) => {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+const formatAttrs = (attrs: Record<string, unknown>) => {
+  return Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== null && v !== "")
+    .map(([k, v]) => `${k}="${escapeXml(String(v))}"`)
+    .join(" ");
+};
+
+const formatColor = (color: unknown) => {
+  if (color === undefined || color === null || color === "") {
+    return "none";
+  }
+  return String(color);
+};
+
+const formatPath = (d: unknown) => {
+  if (Array.isArray(d)) {
+    return d.map((segment) => (Array.isArray(segment) ? segment.join(" ") : segment)).join(" ");
+  }
+  return typeof d === "string" ? d : "";
+};
+
+/** Rounded rect with a radius per corner, in the order of top-left, top-right, bottom-right, bottom-left. */
+const formatRectPath = (x: number, y: number, w: number, h: number, radius: number[]) => {
+  const [tl, tr, br, bl] = radius.map((r) => Math.min(r, w / 2, h / 2));
+  return [
+    `M ${x + tl} ${y}`,
+    `H ${x + w - tr}`,
+    `A ${tr} ${tr} 0 0 1 ${x + w} ${y + tr}`,
+    `V ${y + h - br}`,
+    `A ${br} ${br} 0 0 1 ${x + w - br} ${y + h}`,
+    `H ${x + bl}`,
+    `A ${bl} ${bl} 0 0 1 ${x} ${y + h - bl}`,
+    `V ${y + tl}`,
+    `A ${tl} ${tl} 0 0 1 ${x + tl} ${y}`,
+    "Z",
+  ].join(" ");
+};
+
+/** Expands the radius shorthand like css `border-radius`. */
+const expandRadius = (r: number[]) => {
+  switch (r.length) {
+    case 1:
+      return [r[0], r[0], r[0], r[0]];
+    case 2:
+      return [r[0], r[1], r[0], r[1]];
+    case 3:
+      return [r[0], r[1], r[2], r[1]];
+    default:
+      return r.slice(0, 4);
+  }
+};
+
+const readAsDataURL = async (src: string) => {
+  try {
+    const res = await fetch(new URL(src, document.baseURI));
+    const blob = await res.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    console.error(e);
+    return src;
+  }
+};
+
+class SvgWriter {
+  readonly elements: string[] = [];
+  private _images: Map<string, Promise<string>> = new Map();
+  private _pending: Promise<void>[] = [];
+
+  write(obj: DisplayObject) {
+    if (!obj.isVisible()) {
+      return;
+    }
+    this._writeShape(obj);
+    const children = (obj.children as DisplayObject[])
+      .map((child, i) => ({ child, i }))
+      .sort((a, b) => {
+        const za = Number(a.child.style.zIndex ?? 0);
+        const zb = Number(b.child.style.zIndex ?? 0);
+        return za - zb || a.i - b.i;
+      });
+    for (const { child } of children) {
+      this.write(child);
+    }
+  }
+
+  async flush() {
+    await Promise.all(this._pending);
+  }
+
+  private _writeShape(obj: DisplayObject) {
+    const attrs = obj.attributes as Attributes;
+    const m = obj.getWorldTransform();
+    const common = {
+      transform: `matrix(${m[0]} ${m[1]} ${m[4]} ${m[5]} ${m[12]} ${m[13]})`,
+      opacity: attrs.opacity,
+      "fill-opacity": attrs.fillOpacity,
+      "stroke-opacity": attrs.strokeOpacity,
+      "stroke-dasharray": Array.isArray(attrs.lineDash) ? attrs.lineDash.join(" ") : undefined,
+    };
+    const paint = {
+      fill: formatColor(attrs.fill),
+      stroke: formatColor(attrs.stroke),
+      "stroke-width": attrs.stroke ? attrs.lineWidth ?? 1 : undefined,
+    };
+    const num = (key: string) => Number(attrs[key] ?? 0);
+
+    switch (obj.nodeName) {
+      case "rect": {
+        const [x, y, w, h] = [num("x"), num("y"), num("width"), num("height")];
+        const radius = expandRadius([attrs.radius ?? 0].flat().map(Number));
+        if (radius.every((r) => r === radius[0])) {
+          this._add("rect", { x, y, width: w, height: h, rx: radius[0], ...paint, ...common });
+        } else {
+          this._add("path", { d: formatRectPath(x, y, w, h, radius), ...paint, ...common });
+        }
+        break;
+      }
+      case "circle":
+        this._add("circle", { cx: num("cx"), cy: num("cy"), r: num("r"), ...paint, ...common });
+        break;
+      case "ellipse":
+        this._add("ellipse", {
+          cx: num("cx"),
+          cy: num("cy"),
+          rx: num("rx"),
+          ry: num("ry"),
+          ...paint,
+          ...common,
+        });
+        break;
+      case "line":
+        this._add("line", {
+          x1: num("x1"),
+          y1: num("y1"),
+          x2: num("x2"),
+          y2: num("y2"),
+          ...paint,
+          ...common,
+        });
+        break;
+      case "polyline":
+      case "polygon": {
+        const points = (attrs.points as number[][] | undefined) ?? [];
+        this._add(obj.nodeName, {
+          points: points.map((p) => p.join(",")).join(" "),
+          ...paint,
+          ...common,
+        });
+        break;
+      }
+      case "path":
+        this._add("path", { d: formatPath(attrs.d), ...paint, ...common });
+        break;
+      case "text":
+        this._writeText(obj, common);
+        break;
+      case "image":
+        this._writeImage(obj, common);
+        break;
+    }
+  }
+
+  private _writeText(obj: DisplayObject, common: Attributes) {
+    const attrs = obj.attributes as Attributes;
+    const text = String(attrs.text ?? "");
+    if (!text) {
+      return;
+    }
+    const metrics = (obj.parsedStyle as { metrics?: { lines: string[]; lineHeight: number } })
+      .metrics;
+    const lines = metrics?.lines ?? text.split("\n");
+    const fontSize = Number(attrs.fontSize ?? 12);
+    const lineHeight = Number(attrs.lineHeight || metrics?.lineHeight || fontSize * 1.2);
+    const baseline = attrs.textBaseline ?? "alphabetic";
+    const x = Number(attrs.x ?? 0);
+    let y = Number(attrs.y ?? 0);
+    if (baseline === "middle") {
+      y -= ((lines.length - 1) * lineHeight) / 2;
+    } else if (baseline === "bottom") {
+      y -= (lines.length - 1) * lineHeight;
+    }
+    const align = attrs.textAlign;
+    const tspans = lines
+      .map((line, i) => `<tspan x="${x}" y="${y + i * lineHeight}">${escapeXml(line)}</tspan>`)
+      .join("");
+    this.elements.push(
+      `<text ${formatAttrs({
+        "font-size": fontSize,
+        "font-family": attrs.fontFamily ?? "sans-serif",
+        "font-weight": attrs.fontWeight,
+        "text-anchor":
+          align === "center" ? "middle" : align === "right" || align === "end" ? "end" : "start",
+        "dominant-baseline":
+          baseline === "top"
+            ? "text-before-edge"
+            : baseline === "middle"
+            ? "central"
+            : baseline === "bottom"
+            ? "text-after-edge"
+            : undefined,
+        fill: formatColor(attrs.fill),
+        stroke: attrs.stroke ? formatColor(attrs.stroke) : undefined,
+        "stroke-width": attrs.stroke ? attrs.lineWidth ?? 1 : undefined,
+        "paint-order": attrs.stroke ? "stroke" : undefined,
+        ...common,
+      })}>${tspans}</text>`
+    );
+  }
+
+  private _writeImage(obj: DisplayObject, common: Attributes) {
+    const attrs = obj.attributes as Attributes;
+    const src = attrs.src ?? attrs.img;
+    const url = typeof src === "string" ? src : (src as HTMLImageElement | undefined)?.src;
+    if (!url) {
+      return;
+    }
+    let data = this._images.get(url);
+    if (!data) {
+      data = readAsDataURL(url);
+      this._images.set(url, data);
+    }
+    // keep the position of the element, the data url is filled in when loaded
+    const index = this.elements.push("") - 1;
+    this._pending.push(
+      data.then((href) => {
+        this.elements[index] = `<image ${formatAttrs({
+          x: attrs.x ?? 0,
+          y: attrs.y ?? 0,
+          width: attrs.width,
+          height: attrs.height,
+          href,
+          ...common,
+        })}/>`;
+      })
+    );
+  }
+
+  private _add(tag: string, attrs: Attributes) {
+    this.elements.push(`<${tag} ${formatAttrs(attrs)}/>`);
+  }
+}
+
+/** Serializes the visible shapes under `root` into a standalone svg, images are embedded. */
+export const renderSvg = async (root: DisplayObject, theme: ImageTheme) => {
+  const bounds = root.getRenderBounds();
+  const [minX, minY] = bounds.min;
+  const [maxX, maxY] = bounds.max;
+  const x = Math.floor(minX - PADDING);
+  const y = Math.floor(minY - PADDING);
+  const width = Math.ceil(maxX - minX + PADDING * 2);
+  const height = Math.ceil(maxY - minY + PADDING * 2);
+  const writer = new SvgWriter();
+  writer.write(root);
+  await writer.flush();
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+      `viewBox="${x} ${y} ${width} ${height}">`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" ` +
+      `fill="${imageBackgrounds[theme]}"/>`,
+    ...writer.elements.filter((v) => v),
+    "</svg>",
+  ].join("\n");
+};
+
+/**
+ * Calls `fn` with a faked `devicePixelRatio`, the g6 image export renders at the pixel ratio
+ * of the screen.
+ */
+export const withPixelRatio = async <T>(ratio: number, fn: () => Promise<T>) => {
+  const desc = Object.getOwnPropertyDescriptor(globalThis, "devicePixelRatio");
+  Object.defineProperty(globalThis, "devicePixelRatio", { value: ratio, configurable: true });
+  try {
+    return await fn();
+  } finally {
+    if (desc) {
+      Object.defineProperty(globalThis, "devicePixelRatio", desc);
+    } else {
+      delete (globalThis as { devicePixelRatio?: number }).devicePixelRatio;
+    }
+  }
+};
+
+/** Draws the transparent image on the background of the theme with a margin, returns png data. */
+export const composePng = async (dataURL: string, ratio: number, theme: ImageTheme) => {
+  const img = new Image();
+  await new Promise((resolve, reject) => {
+    img.onload = resolve;
+    img.onerror = reject;
+    img.src = dataURL;
+  });
+  const padding = PADDING * ratio;
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width + padding * 2;
+  canvas.height = img.height + padding * 2;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = imageBackgrounds[theme];
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, padding, padding);
+  const base64 = canvas.toDataURL("image/png").split(",")[1];
+  return Buffer.from(base64, "base64");
+};
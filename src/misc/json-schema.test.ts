@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  createJsonSchemaValue,
+  formatJsonPath,
+  getJsonSchemaType,
+  getJsonType,
+  JsonSchema,
+  validateJsonSchema,
+} from "./json-schema";
+
+const schema: JsonSchema = {
+  type: "object",
+  required: ["name", "level"],
+  properties: {
+    name: { type: "string", minLength: 1, pattern: "^[a-z_]+$" },
+    level: { type: "integer", minimum: 1, maximum: 10 },
+    tags: { type: "array", items: { enum: ["boss", "elite"] }, maxItems: 2 },
+  },
+  additionalProperties: false,
+};
+
+describe("formatJsonPath", () => {
+  it("formats the keys and indexes", () => {
+    expect(formatJsonPath([])).toBe("$");
+    expect(formatJsonPath(["tags", 1, "name"])).toBe("$.tags[1].name");
+  });
+});
+
+describe("getJsonType", () => {
+  it("tells integers, nulls and arrays apart", () => {
+    expect([1, 1.5, null, [], {}, "", true].map(getJsonType)).toEqual([
+      "integer",
+      "number",
+      "null",
+      "array",
+      "object",
+      "string",
+      "boolean",
+    ]);
+  });
+});
+
+describe("getJsonSchemaType", () => {
+  it("guesses the type from the keywords", () => {
+    expect(getJsonSchemaType({ type: ["string", "null"] })).toBe("string");
+    expect(getJsonSchemaType({ properties: {} })).toBe("object");
+    expect(getJsonSchemaType({ items: {} })).toBe("array");
+    expect(getJsonSchemaType({})).toBeUndefined();
+  });
+});
+
+describe("createJsonSchemaValue", () => {
+  it("creates the required properties", () => {
+    expect(createJsonSchemaValue(schema)).toEqual({ name: "", level: 1 });
+  });
+
+  it("prefers the default value and the first enum value", () => {
+    const value = { x: 1 };
+    const created = createJsonSchemaValue({ type: "object", default: value });
+    expect(created).toEqual(value);
+    expect(created).not.toBe(value);
+    expect(createJsonSchemaValue({ enum: ["a", "b"] })).toBe("a");
+  });
+});
+
+describe("validateJsonSchema", () => {
+  it("accepts valid values", () => {
+    expect(validateJsonSchema(schema, { name: "orc", level: 3, tags: ["boss"] })).toEqual([]);
+  });
+
+  it("reports the errors with their paths", () => {
+    const errors = validateJsonSchema(schema, {
+      name: "Orc",
+      level: 11,
+      tags: ["boss", "king", "elite"],
+      hp: 10,
+    });
+    expect(errors).toEqual([
+      { path: "$.name", message: "should match the pattern '^[a-z_]+$'" },
+      { path: "$.level", message: "should be <= 10" },
+      { path: "$.tags", message: "should have at most 2 items" },
+      { path: "$.tags[1]", message: 'should be one of "boss", "elite"' },
+      { path: "$.hp", message: "is not allowed" },
+    ]);
+  });
+
+  it("reports the missing properties and the wrong types", () => {
+    expect(validateJsonSchema(schema, { level: 1.5 })).toEqual([
+      { path: "$.name", message: "is required" },
+      { path: "$.level", message: "should be integer, got number" },
+    ]);
+    expect(validateJsonSchema(schema, [])).toEqual([
+      { path: "$", message: "should be object, got array" },
+    ]);
+  });
+
+  it("accepts integers as numbers", () => {
+    expect(validateJsonSchema({ type: "number" }, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+export type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+/** The subset of JSON Schema used by `json` args. */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+};
+
+export type JsonPath = (string | number)[];
+
+export type JsonSchemaError = {
+  path: string;
+  message: string;
+};
+
+export const formatJsonPath = (path: JsonPath) => {
+  return path.reduce<string>((str, key) => {
+    return typeof key === "number" ? `${str}[${key}]` : `${str}.${key}`;
+  }, "$");
+};
+
+export const getJsonType = (value: unknown): JsonSchemaType => {
+  if (value === null) {
+    return "null";
+  } else if (Array.isArray(value)) {
+    return "array";
+  } else if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonSchemaType;
+};
+
+/** Returns the first type of the schema, guessed from the keywords when not declared. */
+export const getJsonSchemaType = (schema: JsonSchema): JsonSchemaType | undefined => {
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (type) {
+    return type;
+  } else if (schema.properties) {
+    return "object";
+  } else if (schema.items) {
+    return "array";
+  }
+  return undefined;
+};
+
+const isTypeOf = (value: unknown, type: JsonSchemaType) => {
+  const actual = getJsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+const testPattern = (pattern: string, value: string) => {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch (e) {
+    console.error(e);
+    return false;
+  }
+};
+
+/** Creates the initial value of a new property or array item. */
+export const createJsonSchemaValue = (schema: JsonSchema): unknown => {
+  if (schema.default !== undefined) {
+    return structuredClone(schema.default);
+  } else if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+  switch (getJsonSchemaType(schema)) {
+    case "object": {
+      const value: Record<string, unknown> = {};
+      schema.required?.forEach((key) => {
+        value[key] = createJsonSchemaValue(schema.properties?.[key] ?? {});
+      });
+      return value;
+    }
+    case "array":
+      return [];
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+};
+
+export const validateJsonSchema = (schema: JsonSchema, value: unknown, path: JsonPath = []) => {
+  const errors: JsonSchemaError[] = [];
+  const error = (message: string) => errors.push({ path: formatJsonPath(path), message });
+
+  const types = schema.type === undefined ? [] : [schema.type].flat();
+  if (types.length && !types.some((type) => isTypeOf(value, type))) {
+    error(`should be ${types.join(" or ")}, got ${getJsonType(value)}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    error(`should be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      error(`should be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      error(`should be <= ${schema.maximum}`);
+    }
+  } else if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      error(`should have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      error(`should have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !testPattern(schema.pattern, value)) {
+      error(`should match the pattern '${schema.pattern}'`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      error(`should have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      error(`should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(schema.items!, item, [...path, i]));
+      });
+    }
+  } else if (value !== null && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    schema.required?.forEach((key) => {
+      if (obj[key] === undefined) {
+        errors.push({ path: formatJsonPath([...path, key]), message: "is required" });
+      }
+    });
+    for (const key in obj) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJsonSchema(property, obj[key], [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: formatJsonPath([...path, key]), message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(schema.additionalProperties, obj[key], [...path, key]));
+      }
+    }
+  }
+
+  return errors;
+};
@@ -28,6 +28,7 @@ export const useKeyDown = (
 export const Hotkey = {
   Backspace: Key.Backspace,
   Build: hotkey("ctrl.b"),
+  CenterSelection: hotkey("ctrl.e"),
   CloseEditor: hotkey("ctrl.w"),
   Copy: hotkey("ctrl.c"),
   Cut: hotkey("ctrl.x"),
@@ -36,6 +37,8 @@ export const Hotkey = {
   Enter: Key.Enter,
   Escape: Key.Escape,
   F2: Key.F2,
+  FitSelection: hotkey("shift.ctrl.0"),
+  FitView: hotkey("ctrl.0"),
   Insert: Key.Insert,
   JumpNode: hotkey("ctrl.g"),
   MacDelete: isMacos ? hotkey("ctrl.backspace") : "",
@@ -46,6 +49,11 @@ export const Hotkey = {
   SearchTree: hotkey("ctrl.p"),
   SearchNode: hotkey("ctrl.f"),
   SelectAll: hotkey("ctrl.a"),
+  Simulate: Key.F5,
+  SimulateRestart: hotkey("shift.ctrl.f5"),
+  SimulateStep: Key.F10,
+  SimulateStepInto: Key.F11,
+  SimulateStop: hotkey("shift.f5"),
   Undo: hotkey("ctrl.z"),
 };
 
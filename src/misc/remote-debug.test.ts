@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseRemoteMessage } from "./remote-debug";
+
+describe("parseRemoteMessage", () => {
+  it("accepts the messages of the protocol", () => {
+    const messages = [
+      { type: "hello", name: "server" },
+      { type: "agents", agents: [{ id: "1", name: "npc", tree: "npc/patrol" }] },
+      {
+        type: "tick",
+        agent: "1",
+        tick: 3,
+        statuses: { "1": "running", "2": "success" },
+        trace: [
+          { id: "1", stack: [] },
+          { id: "2", stack: ["1"], status: "success" },
+        ],
+      },
+      { type: "blackboard", agent: "1", values: { hp: 10, target: null } },
+    ];
+    for (const msg of messages) {
+      expect(parseRemoteMessage(msg)).toEqual(msg);
+    }
+  });
+
+  it("rejects malformed messages", () => {
+    const messages = [
+      null,
+      "hello",
+      [],
+      { type: "unknown" },
+      { type: "hello" },
+      { type: "agents" },
+      { type: "agents", agents: [{ id: 1, tree: "a" }] },
+      { type: "agents", agents: [{ id: "1" }] },
+      { type: "tick", agent: "1", tick: "3", statuses: {} },
+      { type: "tick", agent: "1", tick: 3, statuses: { "1": "done" } },
+      { type: "tick", agent: "1", tick: 3, statuses: {}, trace: [{ id: "1" }] },
+      { type: "blackboard", agent: "1", values: [] },
+    ];
+    for (const msg of messages) {
+      expect(parseRemoteMessage(msg)).toBeNull();
+    }
+  });
+});
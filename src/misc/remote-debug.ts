@@ -0,0 +1,109 @@
+import { RunStatus, TickEvent } from "./simulator";
+
+/**
+ * Remote debug protocol.
+ *
+ * The editor listens on `ws://127.0.0.1:<port>`, every message is a JSON text frame.
+ * Node ids are the prefixed ids emitted by `createBuildData`.
+ *
+ * A runtime connects, sends `hello` and `agents`, then streams `tick` and `blackboard` messages
+ * of the agent the editor asks for with `watch`. See `debug-stub.ts` for an example.
+ */
+export const REMOTE_DEBUG_PORT = 7881;
+
+export type RemoteAgent = {
+  /** unique id of the agent inside the runtime */
+  id: string;
+  name?: string;
+  /** path of the tree file relative to the workdir, the extension is optional */
+  tree: string;
+};
+
+export type RemoteTick = {
+  type: "tick";
+  agent: string;
+  tick: number;
+  /** status of the nodes ticked during this tick */
+  statuses: Record<string, RunStatus>;
+  /** nodes in entering order, lets the editor step through the tick on breakpoints */
+  trace?: TickEvent[];
+};
+
+/** Messages sent by a runtime. */
+export type RemoteMessage =
+  | { type: "hello"; name: string }
+  | { type: "agents"; agents: RemoteAgent[] }
+  | RemoteTick
+  | { type: "blackboard"; agent: string; values: Record<string, unknown> };
+
+/** Messages sent by the editor. */
+export type RemoteCommand =
+  /** starts streaming the agent, `null` stops streaming */
+  | { type: "watch"; agent: string | null }
+  /** the editor paused on a breakpoint, the runtime may stop ticking the agent */
+  | { type: "pause"; agent: string }
+  | { type: "resume"; agent: string }
+  /** sets a blackboard value before the next tick */
+  | { type: "setValue"; agent: string; name: string; value: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStatus = (value: unknown): value is RunStatus => {
+  return value === "success" || value === "failure" || value === "running";
+};
+
+const isAgent = (value: unknown): value is RemoteAgent => {
+  return (
+    isObject(value) &&
+    isString(value.id) &&
+    isString(value.tree) &&
+    (value.name === undefined || isString(value.name))
+  );
+};
+
+const isTickEvent = (value: unknown): value is TickEvent => {
+  return (
+    isObject(value) &&
+    isString(value.id) &&
+    Array.isArray(value.stack) &&
+    value.stack.every(isString) &&
+    (value.status === undefined || isStatus(value.status)) &&
+    (value.blackboard === undefined || isObject(value.blackboard))
+  );
+};
+
+/** Checks the shape of a message sent by a runtime, returns `null` if it is malformed. */
+export const parseRemoteMessage = (data: unknown): RemoteMessage | null => {
+  if (!isObject(data)) {
+    return null;
+  }
+  const msg = data as RemoteMessage;
+  switch (data.type) {
+    case "hello":
+      return isString(data.name) ? msg : null;
+    case "agents":
+      return Array.isArray(data.agents) && data.agents.every(isAgent) ? msg : null;
+    case "tick":
+      return isString(data.agent) &&
+        typeof data.tick === "number" &&
+        isObject(data.statuses) &&
+        Object.values(data.statuses).every(isStatus) &&
+        (data.trace === undefined || (Array.isArray(data.trace) && data.trace.every(isTickEvent)))
+        ? msg
+        : null;
+    case "blackboard":
+      return isString(data.agent) && isObject(data.values) ? msg : null;
+    default:
+      return null;
+  }
+};
+
+/** Forwarded from the main process to the editor windows. */
+export type RemoteEvent = {
+  client: number;
+  message: RemoteMessage | { type: "connect" } | { type: "disconnect" };
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { NodeData } from "./b3type";
+import { createSearchRegExp, formatSearchField, replaceNodeField, searchNode } from "./search";
+
+const createNode = (): NodeData => ({
+  id: "3",
+  name: "Attack",
+  desc: "attack the target",
+  args: { skill: "fire_ball", targets: ["enemy", "", "boss"], count: 3 },
+  input: ["target"],
+  output: ["", "attack_target"],
+});
+
+describe("createSearchRegExp", () => {
+  it("escapes the text unless regex is set", () => {
+    const option = { text: "a.b", caseSensitive: true, regex: false };
+    expect(createSearchRegExp(option).test("axb")).toBe(false);
+    expect(createSearchRegExp({ ...option, regex: true }).test("axb")).toBe(true);
+  });
+
+  it("ignores the case unless caseSensitive is set", () => {
+    expect(createSearchRegExp({ text: "ATT", caseSensitive: false, regex: false }).flags).toBe(
+      "gi"
+    );
+    expect(createSearchRegExp({ text: "ATT", caseSensitive: true, regex: false }).flags).toBe("g");
+  });
+
+  it("throws on invalid expressions", () => {
+    expect(() => createSearchRegExp({ text: "(", caseSensitive: false, regex: true })).toThrow();
+  });
+});
+
+describe("searchNode", () => {
+  it("matches the string fields and the array elements", () => {
+    const regexp = createSearchRegExp({ text: "target", caseSensitive: false, regex: false });
+    const matches = searchNode(createNode(), regexp);
+    expect(matches.map((v) => formatSearchField(v.field))).toEqual([
+      "desc",
+      "input[0]",
+      "output[1]",
+    ]);
+    expect(matches.every((v) => v.id === "3")).toBe(true);
+  });
+
+  it("skips empty values and non-string args", () => {
+    const regexp = createSearchRegExp({ text: ".*", caseSensitive: false, regex: true });
+    const fields = searchNode(createNode(), regexp).map((v) => formatSearchField(v.field));
+    expect(fields).toEqual([
+      "name",
+      "desc",
+      "args.skill",
+      "args.targets[0]",
+      "args.targets[2]",
+      "input[0]",
+      "output[1]",
+    ]);
+  });
+});
+
+describe("replaceNodeField", () => {
+  it("replaces with the groups of the expression", () => {
+    const node = createNode();
+    const regexp = createSearchRegExp({ text: "(\\w+)_ball", caseSensitive: true, regex: true });
+    expect(replaceNodeField(node, { type: "args", name: "skill" }, regexp, "$1_wall")).toBe(true);
+    expect(node.args!.skill).toBe("fire_wall");
+  });
+
+  it("replaces the array elements without modifying the old arrays", () => {
+    const node = createNode();
+    const targets = node.args!.targets;
+    const output = node.output;
+    const regexp = createSearchRegExp({ text: "target", caseSensitive: false, regex: false });
+    expect(replaceNodeField(node, { type: "output", index: 1 }, regexp, "goal")).toBe(true);
+    expect(node.output).toEqual(["", "attack_goal"]);
+    expect(output).toEqual(["", "attack_target"]);
+
+    const boss = createSearchRegExp({ text: "boss", caseSensitive: false, regex: false });
+    expect(replaceNodeField(node, { type: "args", name: "targets", index: 2 }, boss, "king")).toBe(
+      true
+    );
+    expect(node.args!.targets).toEqual(["enemy", "", "king"]);
+    expect(targets).toEqual(["enemy", "", "boss"]);
+  });
+
+  it("returns false when the field does not match anymore", () => {
+    const node = createNode();
+    const regexp = createSearchRegExp({ text: "attack", caseSensitive: true, regex: false });
+    expect(replaceNodeField(node, { type: "name" }, regexp, "defend")).toBe(false);
+    expect(replaceNodeField(node, { type: "args", name: "count" }, regexp, "defend")).toBe(false);
+    expect(node.name).toBe("Attack");
+  });
+});
@@ -0,0 +1,118 @@
+import { NodeData } from "./b3type";
+
+export type SearchOption = {
+  text: string;
+  caseSensitive: boolean;
+  regex: boolean;
+};
+
+/** Where the match is found, `args` arrays are matched element by element. */
+export type SearchField =
+  | { type: "name" }
+  | { type: "desc" }
+  | { type: "args"; name: string; index?: number }
+  | { type: "input"; index: number }
+  | { type: "output"; index: number };
+
+export type SearchMatch = {
+  id: string;
+  field: SearchField;
+  value: string;
+};
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Throws when `option.regex` is set and the text is not a valid expression. */
+export const createSearchRegExp = (option: SearchOption) => {
+  const source = option.regex ? option.text : escapeRegExp(option.text);
+  return new RegExp(source, option.caseSensitive ? "g" : "gi");
+};
+
+export const formatSearchField = (field: SearchField) => {
+  if (field.type === "args") {
+    return field.index === undefined ? `args.${field.name}` : `args.${field.name}[${field.index}]`;
+  } else if (field.type === "input" || field.type === "output") {
+    return `${field.type}[${field.index}]`;
+  }
+  return field.type;
+};
+
+const isMatched = (value: unknown, regexp: RegExp): value is string => {
+  regexp.lastIndex = 0;
+  return typeof value === "string" && value !== "" && regexp.test(value);
+};
+
+export const searchNode = (node: NodeData, regexp: RegExp) => {
+  const matches: SearchMatch[] = [];
+  const add = (field: SearchField, value: unknown) => {
+    if (isMatched(value, regexp)) {
+      matches.push({ id: node.id, field, value });
+    }
+  };
+  add({ type: "name" }, node.name);
+  add({ type: "desc" }, node.desc);
+  for (const name in node.args) {
+    const value = node.args[name];
+    if (Array.isArray(value)) {
+      value.forEach((v, index) => add({ type: "args", name, index }, v));
+    } else {
+      add({ type: "args", name }, value);
+    }
+  }
+  node.input?.forEach((v, index) => add({ type: "input", index }, v));
+  node.output?.forEach((v, index) => add({ type: "output", index }, v));
+  return matches;
+};
+
+/**
+ * Replaces the matches of `regexp` in the field of the node, `replacement` may refer to
+ * the groups of a regex search. The changed fields are replaced rather than modified in place.
+ * Returns false when the field does not match anymore.
+ */
+export const replaceNodeField = (
+  node: NodeData,
+  field: SearchField,
+  regexp: RegExp,
+  replacement: string
+) => {
+  const replace = (value: unknown) => {
+    if (!isMatched(value, regexp)) {
+      return undefined;
+    }
+    regexp.lastIndex = 0;
+    return value.replace(regexp, replacement);
+  };
+  if (field.type === "name" || field.type === "desc") {
+    const value = replace(node[field.type]);
+    if (value === undefined) {
+      return false;
+    }
+    node[field.type] = value;
+  } else if (field.type === "args") {
+    const arg = node.args?.[field.name];
+    if (field.index === undefined) {
+      const value = replace(arg);
+      if (value === undefined) {
+        return false;
+      }
+      node.args = { ...node.args, [field.name]: value };
+    } else {
+      const value = Array.isArray(arg) ? replace(arg[field.index]) : undefined;
+      if (value === undefined) {
+        return false;
+      }
+      const arr = (arg as unknown[]).slice();
+      arr[field.index] = value;
+      node.args = { ...node.args, [field.name]: arr };
+    }
+  } else {
+    const value = replace(node[field.type]?.[field.index]);
+    if (value === undefined) {
+      return false;
+    }
+    const arr = node[field.type]!.slice();
+    arr[field.index] = value;
+    node[field.type] = arr;
+  }
+  return true;
+};
@@ -0,0 +1,177 @@
+import {
+  Context,
+  Node,
+  NodeDef,
+  Status,
+  Tree,
+  TreeData as RuntimeTreeData,
+} from "../behavior3/src/behavior3";
+import { NodeData, TreeData, VarDecl } from "./b3type";
+import * as b3util from "./b3util";
+
+export type RunStatus = "success" | "failure" | "running";
+
+export type TickEvent = {
+  id: string;
+  /** status returned by the node, unset until the node returns */
+  status?: RunStatus;
+  /** ids of the running ancestors, from the root to the parent */
+  stack: string[];
+  /** values of the declared variables when the node is entered, if the runtime reports them */
+  blackboard?: Record<string, unknown>;
+};
+
+class SimulateContext extends Context {
+  loadTree(path: string): Promise<Node> {
+    return Promise.reject(new Error(`subtree '${path}' should be inlined before simulation`));
+  }
+
+  createTree(path: string, data: RuntimeTreeData) {
+    const root = this._createTree(data);
+    this.trees[path] = root;
+    return root;
+  }
+}
+
+/**
+ * Runs a tree in the behavior3 runtime, one tick at a time.
+ * Nodes unknown to the runtime are mocked, and return the status set by `mock` or `success`.
+ */
+export class Simulator {
+  readonly context: SimulateContext;
+  readonly tree: Tree<SimulateContext, unknown>;
+  readonly mocks: Record<string, RunStatus> = {};
+  readonly source: string;
+
+  tickCount: number = 0;
+  deltaTime: number = 0.1;
+
+  /** status of the nodes ticked during the last tick, keyed by node id */
+  statuses: Record<string, RunStatus> = {};
+
+  /** nodes in entering order during the last tick */
+  events: TickEvent[] = [];
+
+  /** records the blackboard with each event, only needed when the debugger pauses in the tick */
+  recordBlackboard: boolean = false;
+
+  private _stack: string[] = [];
+
+  constructor(readonly path: string, data: TreeData, readonly vars: VarDecl[]) {
+    this.context = new SimulateContext();
+    b3util.nodeDefs.forEach((def) => {
+      if (!this.context.nodeDefs[def.name]) {
+        this.context.registerNode(this._createMockNode(def));
+      }
+    });
+
+    const runtimeData = { ...data, root: this._createRuntimeData(data.root) };
+    this.source = JSON.stringify(runtimeData);
+
+    const root = this.context.createTree(path, runtimeData as unknown as RuntimeTreeData);
+    this._hook(root);
+
+    this.tree = new Tree(this.context, {}, path);
+  }
+
+  private _createMockNode(def: NodeDef) {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const simulator = this;
+    return class extends Node {
+      override onTick(): Status {
+        return simulator.mocks[String(this.id)] ?? "success";
+      }
+
+      static override get descriptor(): NodeDef {
+        return def;
+      }
+    };
+  }
+
+  private _createRuntimeData(data: NodeData): NodeData {
+    // subtrees are inlined by the editor, so drop the path to avoid loading them again,
+    // and breakpoints are handled by the editor
+    return {
+      ...b3util.createFileData(data, true),
+      path: undefined,
+      debug: undefined,
+      children: data.children?.map((child) => this._createRuntimeData(child)),
+    };
+  }
+
+  private _hook(node: Node) {
+    const id = String(node.id);
+    const tick = node.tick.bind(node);
+    node.tick = (tree) => {
+      const event: TickEvent = { id, stack: this._stack.slice() };
+      if (this.recordBlackboard) {
+        event.blackboard = this._snapshot();
+      }
+      this.events.push(event);
+      this._stack.push(id);
+      const status = tick(tree) as RunStatus;
+      this._stack.pop();
+      event.status = status;
+      this.statuses[id] = status;
+      return status;
+    };
+    node.children.forEach((child) => this._hook(child));
+  }
+
+  /** Copies the blackboard, values that cannot be cloned are kept by reference. */
+  private _snapshot() {
+    const values = this.blackboard;
+    for (const name in values) {
+      try {
+        values[name] = structuredClone(values[name]);
+      } catch {
+        // functions and class instances of the runtime
+      }
+    }
+    return values;
+  }
+
+  /** Returns whether `data` still runs the same as the simulated tree. */
+  isRunning(data: TreeData) {
+    return JSON.stringify({ ...data, root: this._createRuntimeData(data.root) }) === this.source;
+  }
+
+  get status() {
+    return this.statuses["1"] as RunStatus | undefined;
+  }
+
+  get blackboard() {
+    const values: Record<string, unknown> = {};
+    for (const v of this.vars) {
+      values[v.name] = this.tree.blackboard.get(v.name);
+    }
+    return values;
+  }
+
+  setValue(name: string, value: unknown) {
+    this.tree.blackboard.set(name, value);
+  }
+
+  step() {
+    this.statuses = {};
+    this.events = [];
+    this._stack.length = 0;
+    this.context.update(this.deltaTime);
+    this.tree.tick();
+    this.tickCount++;
+    return this.status;
+  }
+
+  mock(id: string, status: RunStatus | undefined) {
+    if (status) {
+      this.mocks[id] = status;
+    } else {
+      delete this.mocks[id];
+    }
+  }
+
+  destroy() {
+    this.tree.interrupt();
+    this.tree.clear();
+  }
+}
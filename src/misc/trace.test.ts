@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { createTraceTicks, formatTrace, parseTrace, TraceRecord, trimTrace } from "./trace";
+
+describe("parseTrace", () => {
+  it("parses json lines and skips blank lines", () => {
+    const str =
+      '{"tick":1,"id":1,"status":"success"}\r\n\n{"tick":2,"id":"2","status":"running"}\n';
+    expect(parseTrace(str)).toEqual([
+      { tick: 1, id: "1", status: "success" },
+      { tick: 2, id: "2", status: "running" },
+    ]);
+  });
+
+  it("reports the line of invalid records", () => {
+    expect(() => parseTrace('{"tick":1,"id":"1","status":"success"}\n{')).toThrow("line 2");
+    expect(() => parseTrace('{"tick":1,"id":"1","status":"done"}')).toThrow("line 1");
+  });
+
+  it("is the reverse of formatTrace", () => {
+    const records: TraceRecord[] = [
+      { tick: 1, id: "1", status: "success", blackboard: { hp: null }, deleted: ["target"] },
+    ];
+    expect(parseTrace(formatTrace(records))).toEqual(records);
+  });
+});
+
+describe("createTraceTicks", () => {
+  it("groups the records by tick and maps the ids", () => {
+    const ticks = createTraceTicks(
+      [
+        { tick: 1, id: "a.2", status: "success" },
+        { tick: 1, id: "a.1", status: "success" },
+        { tick: 2, id: "a.1", status: "failure" },
+      ],
+      (id) => id.replace("a.", "")
+    );
+    expect(ticks.map((v) => v.tick)).toEqual([1, 2]);
+    expect(ticks[0].events).toEqual([
+      { id: "2", status: "success", stack: [] },
+      { id: "1", status: "success", stack: [] },
+    ]);
+  });
+
+  it("accumulates the blackboard, null is a value", () => {
+    const ticks = createTraceTicks(
+      [
+        { tick: 1, id: "1", status: "success", blackboard: { hp: 10, target: null } },
+        { tick: 2, id: "1", status: "success", blackboard: { hp: 5 }, deleted: ["target"] },
+        { tick: 3, id: "1", status: "success" },
+      ],
+      (id) => id
+    );
+    expect(ticks[0].blackboard).toEqual({ hp: 10, target: null });
+    expect(ticks[0].changed).toEqual(["hp", "target"]);
+    expect(ticks[1].blackboard).toEqual({ hp: 5 });
+    expect(ticks[1].changed).toEqual(["hp", "target"]);
+    expect(ticks[2].blackboard).toEqual({ hp: 5 });
+    expect(ticks[2].changed).toEqual([]);
+  });
+});
+
+describe("trimTrace", () => {
+  const records: TraceRecord[] = [
+    { tick: 1, id: "1", status: "success", blackboard: { hp: 10, target: "a" } },
+    { tick: 2, id: "2", status: "success", blackboard: { mp: 1 } },
+    { tick: 2, id: "1", status: "success", deleted: ["target"] },
+    { tick: 3, id: "1", status: "success", blackboard: { hp: 8 }, deleted: ["mp"] },
+  ];
+
+  it("keeps the records within the limit", () => {
+    expect(trimTrace(records, 4)).toBe(records);
+  });
+
+  it("drops whole ticks and keeps the blackboard values", () => {
+    const trimmed = trimTrace(records, 2);
+    expect(trimmed).toEqual([
+      { tick: 3, id: "1", status: "success", blackboard: { hp: 8 }, deleted: ["mp"] },
+    ]);
+    expect(createTraceTicks(trimmed, (id) => id).at(-1)!.blackboard).toEqual(
+      createTraceTicks(records, (id) => id).at(-1)!.blackboard
+    );
+  });
+
+  it("moves the values of the dropped ticks into the first kept record", () => {
+    expect(trimTrace(records, 3)[0]).toEqual({
+      tick: 2,
+      id: "2",
+      status: "success",
+      blackboard: { hp: 10, target: "a", mp: 1 },
+    });
+  });
+});
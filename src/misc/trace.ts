@@ -0,0 +1,101 @@
+import { RunStatus, TickEvent } from "./simulator";
+
+/**
+ * One line of a trace file (JSON lines), in ticking order.
+ * Node ids are the prefixed ids emitted by `createBuildData`.
+ */
+export type TraceRecord = {
+  tick: number;
+  id: string;
+  status: RunStatus;
+  /** blackboard values changed during the tick */
+  blackboard?: Record<string, unknown>;
+  /** names of the blackboard values deleted during the tick */
+  deleted?: string[];
+};
+
+export type TraceTick = {
+  tick: number;
+  events: TickEvent[];
+  /** blackboard values at the end of the tick */
+  blackboard: Record<string, unknown>;
+  /** names of the variables changed during the tick */
+  changed: string[];
+};
+
+const isStatus = (status: unknown): status is RunStatus => {
+  return status === "success" || status === "failure" || status === "running";
+};
+
+export const parseTrace = (str: string) => {
+  const records: TraceRecord[] = [];
+  str.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) {
+      return;
+    }
+    let record: TraceRecord;
+    try {
+      record = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`line ${i + 1}: invalid json`);
+    }
+    if (typeof record.tick !== "number" || record.id === undefined || !isStatus(record.status)) {
+      throw new Error(`line ${i + 1}: 'tick', 'id' and 'status' are required`);
+    }
+    records.push({ ...record, id: String(record.id) });
+  });
+  return records;
+};
+
+export const formatTrace = (records: TraceRecord[]) => {
+  return records.map((v) => JSON.stringify(v) + "\n").join("");
+};
+
+/** Groups the records by tick, `toId` maps the trace ids to the editor ids. */
+export const createTraceTicks = (records: TraceRecord[], toId: (id: string) => string) => {
+  const ticks: TraceTick[] = [];
+  let values: Record<string, unknown> = {};
+  for (const record of records) {
+    let tick = ticks.at(-1);
+    if (!tick || tick.tick !== record.tick) {
+      tick = { tick: record.tick, events: [], blackboard: values, changed: [] };
+      ticks.push(tick);
+    }
+    tick.events.push({ id: toId(record.id), status: record.status, stack: [] });
+    if (record.blackboard || record.deleted) {
+      values = { ...values, ...record.blackboard };
+      record.deleted?.forEach((name) => delete values[name]);
+      tick.changed.push(...Object.keys(record.blackboard ?? {}), ...(record.deleted ?? []));
+      tick.blackboard = values;
+    }
+  }
+  return ticks;
+};
+
+/**
+ * Drops the oldest ticks to keep at most `max` records, the blackboard values set by the
+ * dropped records are moved into the first kept record so the trace still replays the same.
+ */
+export const trimTrace = (records: TraceRecord[], max: number) => {
+  if (records.length <= max) {
+    return records;
+  }
+  let start = records.length - max;
+  while (start < records.length && records[start].tick === records[start - 1].tick) {
+    start++;
+  }
+  const values: Record<string, unknown> = {};
+  for (let i = 0; i < start; i++) {
+    Object.assign(values, records[i].blackboard);
+    records[i].deleted?.forEach((name) => delete values[name]);
+  }
+  const kept = records.slice(start);
+  const first = kept[0];
+  if (first) {
+    first.deleted?.forEach((name) => delete values[name]);
+    if (Object.keys(values).length > 0) {
+      kept[0] = { ...first, blackboard: { ...values, ...first.blackboard } };
+    }
+  }
+  return kept;
+};
@@ -42,6 +42,8 @@ export const writeTree = (path: string, data: TreeData) => {
     desc: data.desc,
     prefix: data.prefix,
     export: data.export,
+    layout: data.layout,
+    comments: data.comments,
     group: data.group,
     import: data.import,
     vars: data.vars,
@@ -64,7 +64,8 @@ export default defineConfig(({ command }) => {
         // Ployfill the Electron and Node.js API for Renderer process.
         // If you want use Node.js in Renderer process, the `nodeIntegration` needs to be enabled in the Main process.
         // See 👉 https://github.com/electron-vite/vite-plugin-electron-renderer
-        renderer: {},
+        // Tests run in Node.js and import the Node.js modules directly.
+        renderer: process.env.VITEST ? undefined : {},
       }),
     ],
     server: